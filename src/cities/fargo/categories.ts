@@ -0,0 +1,34 @@
+import {
+  BASE_INFERENCE_RULES,
+  BASE_TAXONOMY_CATEGORIES,
+  CategoryTaxonomy,
+} from "../../enrichment/categories"
+
+export const FARGO_CATEGORY_TAXONOMY: CategoryTaxonomy = {
+  categories: BASE_TAXONOMY_CATEGORIES,
+  sourceMappings: {
+    // ev:type is "Concert" / "Sports" / "Other"; "Other" is everything from
+    // monster trucks to graduations, so it says nothing.
+    "fargodome.com": { other: [] },
+    // Parachigo's own fallback bucket (see categorize() in
+    // parachigo-com.ts) — fashion shows and drum circles, not civic events.
+    "parachigo.com": { community: ["arts"] },
+  },
+  // Only consulted for events whose source categories mapped to nothing
+  // (fargotheatre.org and downtownfargo.com send none at all).
+  inferenceRules: [
+    ...BASE_INFERENCE_RULES,
+    // The Fargo Theatre's /events/ listing is its live shows (concerts,
+    // comedy, talks) as much as films, so the venue says nothing; film
+    // nights are told apart by title — festivals, documentaries and
+    // classics listed with their release year ("Jaws (1975)").
+    {
+      category: "film",
+      title: /\bfilm fest(?:ival)?\b|\bdocumentary\b|\bshorts\b|\(\d{4}\)/i,
+    },
+    { category: "music", venue: /parachigo/i },
+    { category: "food-drink", venue: /drekker|brewhalla/i },
+    { category: "games", venue: /paradox comics/i },
+    { category: "learning", venue: /\blibrary\b/i },
+  ],
+}
@@ -1,4 +1,5 @@
 import { CityConfig } from "../types"
+import { FARGO_CATEGORY_TAXONOMY } from "./categories"
 import { FARGO_SOURCE_INFO } from "./sources"
 import { FARGO_VENUE_RULES } from "./venues"
 
@@ -20,6 +21,7 @@ export const fargoCity: CityConfig = {
   },
   region: { minLat: 45.5, maxLat: 48, minLng: -98.5, maxLng: -95 },
   venueRules: FARGO_VENUE_RULES,
+  categoryTaxonomy: FARGO_CATEGORY_TAXONOMY,
   // Pre-city-modules path, kept so the existing deploy needs no migration.
   dbPath: "./events.db",
   sourceInfo: FARGO_SOURCE_INFO,
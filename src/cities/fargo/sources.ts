@@ -14,10 +14,12 @@ export const FARGO_SOURCE_INFO: SourceInfo[] = [
     dedupPriority: 1,
   },
   {
+    // iCal feed fetched 45 days out, deep enough for monthly series.
     source: "fargounderground.com",
     aliases: ["underground", "fargounderground"],
     sports: false,
     dedupPriority: 2,
+    fetchHorizonDays: 45,
   },
   {
     source: "westfargoevents.com",
@@ -32,10 +34,12 @@ export const FARGO_SOURCE_INFO: SourceInfo[] = [
     dedupPriority: 4,
   },
   {
+    // iCal feed fetched 45 days out, deep enough for monthly series.
     source: "westfargolibrary.org",
     aliases: ["westfargolibrary", "wfpl"],
     sports: false,
     dedupPriority: 5,
+    fetchHorizonDays: 45,
   },
   {
     source: "larl.org",
@@ -0,0 +1,19 @@
+import {
+  BASE_INFERENCE_RULES,
+  BASE_TAXONOMY_CATEGORIES,
+  CategoryTaxonomy,
+} from "../../enrichment/categories"
+
+export const SIOUXFALLS_CATEGORY_TAXONOMY: CategoryTaxonomy = {
+  categories: BASE_TAXONOMY_CATEGORIES,
+  sourceMappings: {},
+  // experiencesiouxfalls.com (the bulk of the feed) sends no categories, so
+  // most of its events are categorized by these rules and title keywords.
+  inferenceRules: [
+    ...BASE_INFERENCE_RULES,
+    { category: "arts", venue: /washington pavilion|orpheum theater/i },
+    { category: "music", venue: /levitt at the falls/i },
+    { category: "outdoors", venue: /falls park/i },
+    { category: "learning", venue: /\blibrary\b/i },
+  ],
+}
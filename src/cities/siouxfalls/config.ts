@@ -1,4 +1,5 @@
 import { CityConfig } from "../types"
+import { SIOUXFALLS_CATEGORY_TAXONOMY } from "./categories"
 import { SIOUXFALLS_SOURCE_INFO } from "./sources"
 import { SIOUXFALLS_VENUE_RULES } from "./venues"
 
@@ -20,6 +21,38 @@ export const siouxFallsCity: CityConfig = {
   // mirroring Fargo's loose bounds — it only rejects geocoding junk.
   region: { minLat: 42.8, maxLat: 44.2, minLng: -97.5, maxLng: -96.0 },
   venueRules: SIOUXFALLS_VENUE_RULES,
+  categoryTaxonomy: SIOUXFALLS_CATEGORY_TAXONOMY,
   dbPath: "./events-siouxfalls.db",
   sourceInfo: SIOUXFALLS_SOURCE_INFO,
+  matchTuning: {
+    sourcePairs: [
+      {
+        // CVB cards carry a start time but no coordinates, and the venue
+        // rules only place the big venues — so geo mostly scores "unknown".
+        // Move most of its weight onto the start time.
+        sources: ["experiencesiouxfalls.com"],
+        overrides: {
+          weights: { title: 0.5, venue: 0.25, time: 0.2, geo: 0.05 },
+        },
+      },
+      {
+        // Every Premier Center event is at the same arena, so venue and geo
+        // agree with anything else listed there that night; lean on the
+        // title and require a closer one before deduping.
+        sources: ["dennysanfordpremiercenter.com"],
+        overrides: {
+          weights: { title: 0.6, venue: 0.15, time: 0.15, geo: 0.1 },
+          confidence: { medium: { title: 0.75 } },
+        },
+      },
+      {
+        // Both of the above: title first, then the start time; venue says
+        // little at the arena and geo is usually unknown on the CVB side.
+        sources: ["experiencesiouxfalls.com", "dennysanfordpremiercenter.com"],
+        overrides: {
+          weights: { title: 0.6, venue: 0.15, time: 0.2, geo: 0.05 },
+        },
+      },
+    ],
+  },
 }
@@ -1,5 +1,5 @@
 import { CommunicoFetcher } from "../../fetchers/communico"
-import { ExperienceSiouxFallsFetcher } from "../../fetchers/experiencesiouxfalls-com"
+import { HtmlListingFetcher } from "../../fetchers/html-listing"
 import { SidearmSportsFetcher } from "../../fetchers/sidearm-sports"
 import { SimpleviewFetcher } from "../../fetchers/simpleview"
 import { TribeRestFetcher } from "../../fetchers/tribe-rest"
@@ -7,7 +7,39 @@ import { CityFetchFns } from "../types"
 
 export const SIOUXFALLS_FETCH_FNS: CityFetchFns = {
   "experiencesiouxfalls.com": async () => {
-    const fetcher = new ExperienceSiouxFallsFetcher()
+    // Experience Sioux Falls (the CVB) runs Craft CMS; its /events listing
+    // is a server-rendered Sprig component: 20 `.event-item` cards per
+    // `?page=N`, grouped chronologically under `<h2>June 11, 2026</h2>` date
+    // headers. There is no JSON/iCal feed (the rest_v2/wp-json probes 404).
+    // Cards carry title, venue name, start–end time and the event URL — no
+    // coordinates or street address.
+    const fetcher = new HtmlListingFetcher({
+      listingUrl: "https://www.experiencesiouxfalls.com/events",
+      sourceId: "experiencesiouxfalls.com",
+      eventIdPrefix: "esf",
+      label: "Experience Sioux Falls fetch",
+      defaultCity: "Sioux Falls",
+      item: /<div class="event-item">/,
+      dateHeader: /<h2[^>]*>([\s\S]*?)<\/h2>/,
+      fields: {
+        link: /<a href="(https:\/\/www\.experiencesiouxfalls\.com\/events\/[^"?]+)" class="callout-link">/,
+        title: /<h3>([\s\S]*?)<\/h3>/,
+        // Venue name from the location-pin <dd>, start time from the calendar one
+        location: /location-pin\.svg[\s\S]*?<\/dt>\s*<dd>([\s\S]*?)<\/dd>/,
+        time: /calendar\.svg[\s\S]*?<\/dt>\s*<dd>([\s\S]*?)<\/dd>/,
+        image: /<img [^>]*src="(https:\/\/[^"]+)"/,
+      },
+      dateFormats: ["month-name"],
+      pagination: {
+        urlTemplate: "https://www.experiencesiouxfalls.com/events?page={page}",
+        maxPages: 30,
+      },
+      // Craft's static cache can serve a weeks-old copy of the listing
+      // (observed: page 1 with date headers 15 days in the past); a unique
+      // query param forces a fresh render.
+      cacheBuster: "cb",
+      maxAttempts: 4,
+    })
     const events = await fetcher.fetchEvents()
     return events.map((event) => fetcher.transformToStoredEvent(event))
   },
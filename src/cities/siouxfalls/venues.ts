@@ -17,6 +17,7 @@ export const SIOUXFALLS_VENUE_RULES: VenueRule[] = [
     city: "Sioux Falls",
     latitude: 43.5443,
     longitude: -96.729,
+    aliases: ["Mary W. Sommervold Hall, 301 S. Main Ave"],
   },
   {
     titlePattern: /orpheum theater/i,
@@ -5,6 +5,8 @@
  * The active city is resolved once from the CITY env var in ./index.ts.
  */
 import { StoredEvent } from "../types/event"
+import { CategoryTaxonomy } from "../enrichment/categories"
+import { CityMatchTuning } from "../dedup/tuning"
 import { VenueRule } from "../enrichment/venues"
 
 export interface SourceInfo {
@@ -36,6 +38,12 @@ export interface SourceInfo {
    * default daysAhead everywhere); null = never apply cancelled detection.
    */
   fetchHorizonDays?: number | null
+  /**
+   * The upstream gives UTC instants that end up stored as the date/time,
+   * so evening events land on the next day. Dedup compares this source's
+   * listings in the city's local time.
+   */
+  publishesUtc?: boolean
 }
 
 export type FetchedEvent = Omit<StoredEvent, "id" | "createdAt" | "updatedAt">
@@ -69,8 +77,15 @@ export interface CityConfig {
    */
   region: { minLat: number; maxLat: number; minLng: number; maxLng: number }
   venueRules: VenueRule[]
+  /** Top-level categories and how raw source categories map onto them. */
+  categoryTaxonomy: CategoryTaxonomy
   /** Sqlite path; fargo keeps "./events.db" for back-compat. */
   dbPath: string
   /** Pure source metadata; fetch closures live in cities/<id>/fetchers.ts. */
   sourceInfo: SourceInfo[]
+  /**
+   * Dedup matcher weights and thresholds, city-wide and per source pair.
+   * Omitted = DEFAULT_MATCH_TUNING (src/dedup/tuning.ts) everywhere.
+   */
+  matchTuning?: CityMatchTuning
 }
@@ -1,11 +1,40 @@
 import Database from "better-sqlite3"
+import { ClusterEvent, clusterMatches } from "../dedup/cluster"
+import { mergeClusterFields } from "../dedup/merge"
 import { decodeHtmlEntities, normalizeText } from "../dedup/normalize"
+import { overrideKeyPair, splitPairs } from "../dedup/overrides"
+import {
+  Audience,
+  audienceFilterValues,
+  matchAudience,
+  parseAudience,
+  serializeAudience,
+} from "../enrichment/audience"
+import {
+  findTaxonomyCategory,
+  inferCategories,
+  mapSourceCategories,
+  orderCategoryIds,
+  parseCategoryIds,
+  serializeCategoryIds,
+} from "../enrichment/categories"
+import { detectCadence } from "../enrichment/recurrence"
+import {
+  addressNumber,
+  isGenericVenueKey,
+  parseVenueAliases,
+  splitVenueLocation,
+  Venue,
+  venueKey,
+  venueSlug,
+} from "../enrichment/venues"
 import {
   ALLOW_EMPTY_SOURCES,
   SOURCE_INFO,
   SPORTS_SOURCES,
 } from "../fetchers/sources"
-import { StoredEvent } from "../types/event"
+import { sanitizeDescription } from "../fetchers/shared"
+import { PriceType, StoredEvent } from "../types/event"
 import { getActiveCity } from "../cities"
 
 export { SPORTS_SOURCES }
@@ -18,9 +47,116 @@ export interface EventMatch {
   confidence: string
   reasons: string
   matchType: string
+  /** Per-signal scores from scoreMatch; null on rows from before v15 */
+  titleScore: number | null
+  venueScore: number | null
+  timeScore: number | null
+  geoScore: number | null
+  createdAt: string
+}
+
+/** A borderline match awaiting review, with both events it pairs. */
+export interface MatchReviewItem {
+  match: EventMatch
+  /** The side dedup would hide (eventId1) */
+  dropped: StoredEvent
+  /** The side dedup would keep (eventId2) */
+  kept: StoredEvent
+}
+
+/** One event_matches row as seen from one of the events it pairs. */
+export interface EventMatchExplanation {
+  match: EventMatch
+  /**
+   * This event's side of the pair: "dropped" is eventId1, hidden by dedup
+   * when the match is high/medium; "kept" is eventId2
+   */
+  side: "dropped" | "kept"
+  /** The other event; undefined once it has been deleted */
+  other: StoredEvent | undefined
+}
+
+export type MatchOverrideAction = "merge" | "split"
+export type MatchOverrideKeyType = "eventId" | "url"
+
+/**
+ * A manual dedup decision, applied by buildAllMatches after scoring so it
+ * survives re-dedup (event_matches is rebuilt from scratch every run).
+ */
+export interface MatchOverride {
+  id: number
+  action: MatchOverrideAction
+  keyType: MatchOverrideKeyType
+  /** eventIds, or URLs normalized like the matcher's; stored sorted */
+  key1: string
+  key2: string
+  note: string | null
   createdAt: string
 }
 
+/** One field-level difference observed when an event was re-fetched. */
+export interface EventChange {
+  id: number
+  eventId: string
+  field: string
+  oldValue: string | null
+  newValue: string | null
+  source: string
+  /** startedAt of the source_runs row for the fetch that saw the change. */
+  runStartedAt: string | null
+  /** source_runs.id, while that run is still retained (see pruneSourceRuns). */
+  runId: number | null
+  runType: string | null
+  changedAt: string
+}
+
+/**
+ * events columns whose changes between upserts are recorded in
+ * event_changes. Coordinates/city/description are left out: they churn with
+ * enrichment and upstream edits without meaning anything to a visitor.
+ */
+const TRACKED_EVENT_FIELDS = [
+  "title",
+  "url",
+  "location",
+  "date",
+  "startTime",
+  "endTime",
+  "endDate",
+  "allDay",
+  "priceType",
+  "priceMin",
+  "priceMax",
+] as const
+
+/**
+ * Tracked columns that migrations added to existing rows as NULL. A NULL
+ * before value there usually means "not stored yet", not "unknown", so the
+ * first upsert that fills it isn't logged as a change.
+ */
+const MIGRATION_ADDED_EVENT_FIELDS = new Set<string>([
+  "endTime",
+  "priceType",
+  "priceMin",
+  "priceMax",
+])
+
+/**
+ * Simpleview sources whose rows stored the recurrence series' bounds as
+ * startDate/endDate before migration v21 (see simpleview.ts).
+ */
+const SERIES_SPAN_SOURCES = [
+  "fargomoorhead.org",
+  "dennysanfordpremiercenter.com",
+]
+
+/**
+ * Longest bounded date range (in days) over which queryDisplayEvents lists a
+ * multi-day event once per day it spans; wider or open-ended ranges list it
+ * once, under its first day in the range.
+ */
+const MAX_EXPANDED_RANGE_DAYS = 31
+
 export interface DisplayEvent {
   id: number
   eventId: string
@@ -28,27 +164,74 @@ export interface DisplayEvent {
   url: string
   altUrl: string | null
   location: string | null
+  /** venues.id the raw event was linked to, or null without a location. */
+  venueId: number | null
   date: string
   startTime: string | null
+  /** Last day the event runs (inclusive); equals date for single-day events. */
+  endDate: string
+  endTime: string | null
+  /** 1 when the source flags the event as all-day. */
+  allDay: number
+  /**
+   * Day the row is listed under for a query: date, or for a multi-day event
+   * already under way each day of a short requested range (else its first
+   * day). Only set by queryDisplayEvents.
+   */
+  occurrenceDate?: string
   city: string | null
   imageUrl: string | null
+  description: string | null
+  descriptionHtml: string | null
+  priceType: PriceType | null
+  priceMin: number | null
+  priceMax: number | null
+  ticketUrl: string | null
+  /** JSON array of Audience values: the source's own, else keyword-inferred. */
+  audience: string | null
   categories: string
   /** First category name, decoded — precomputed at rebuild time for the API. */
   category: string | null
+  /** JSON array of the city taxonomy's category ids (see enrichment/categories). */
+  normalizedCategories: string | null
+  /** The subset of normalizedCategories that was inferred, not source-given. */
+  inferredCategories: string | null
   source: string
   latitude: number | null
   longitude: number | null
   /** 1 when the source stopped listing this future event (see flagPossiblyCancelled). */
   possiblyCancelled: number
-  /** Series key when this row is part of a detected weekly/biweekly series. */
+  /** JSON array of tracked fields the source's last fetch changed, or null. */
+  recentChanges: string | null
+  /** Series key when this row is part of a detected recurring series. */
   recurringGroup: string | null
   /** Distinct upcoming dates in the series (within the stored window). */
   recurringCount: number | null
-  recurringCadence: "weekly" | "biweekly" | null
+  /**
+   * Human-readable cadence: "weekly", "biweekly", "1st Friday monthly",
+   * "last Thursday monthly", "monthly on the 15th" (see detectCadence).
+   */
+  recurringCadence: string | null
+  /**
+   * JSON FieldProvenance (see dedup/merge) for rows merged from a duplicate
+   * cluster: which member each field group came from. Null otherwise.
+   */
+  fieldSources: string | null
   createdAt: string
   updatedAt: string
 }
 
+/** One listing (source + URL) that carries a display event. */
+export interface DisplayEventSource {
+  source: string
+  url: string
+}
+
+/** A venue with the number of display rows still to come there. */
+export interface VenueSummary extends Venue {
+  upcomingCount: number
+}
+
 export interface DisplayEventQueryResult {
   rows: DisplayEvent[]
   total: number
@@ -80,6 +263,11 @@ export interface SourceHealth {
 export class EventDatabase {
   private db: Database.Database
   private readonly displayTimeZone = getActiveCity().timeZone
+  /** venueKey → venue, built lazily by venueIndex(). */
+  private venueIdsByKey: Map<string, { id: number; address: string | null }> | null =
+    null
+  /** venues.id of each active-city venue rule, in rule order. */
+  private ruleVenueIds: number[] = []
 
   constructor(dbPath: string = getActiveCity().dbPath) {
     this.db = new Database(dbPath)
@@ -186,6 +374,9 @@ export class EventDatabase {
    */
   private runMigrations() {
     const version = this.db.pragma("user_version", { simple: true }) as number
+    // Set by migrations that change what the search index holds; the
+    // refill runs last because populateSearchIndex reads the newest columns.
+    let reindexSearch = false
 
     if (version < 1) {
       this.db.transaction(() => {
@@ -290,6 +481,318 @@ export class EventDatabase {
         this.db.pragma("user_version = 4")
       })()
     }
+
+    if (version < 5) {
+      // Event descriptions (plain text + short sanitized HTML). Existing
+      // rows stay NULL until their source is next fetched.
+      this.db.transaction(() => {
+        this.db.exec(`
+          ALTER TABLE events ADD COLUMN description TEXT;
+          ALTER TABLE events ADD COLUMN descriptionHtml TEXT;
+          ALTER TABLE display_events ADD COLUMN description TEXT;
+          ALTER TABLE display_events ADD COLUMN descriptionHtml TEXT;
+        `)
+        this.db.pragma("user_version = 5")
+      })()
+    }
+
+    if (version < 6) {
+      // End time + all-day flag, and the span end on display rows so a
+      // multi-day event stays listed until its last day. Backfill endDate
+      // from the raw rows; the next rebuild recomputes it anyway.
+      this.db.transaction(() => {
+        this.db.exec(`
+          ALTER TABLE events ADD COLUMN endTime TEXT;
+          ALTER TABLE events ADD COLUMN allDay INTEGER DEFAULT 0;
+          ALTER TABLE display_events ADD COLUMN endDate TEXT;
+          ALTER TABLE display_events ADD COLUMN endTime TEXT;
+          ALTER TABLE display_events ADD COLUMN allDay INTEGER DEFAULT 0;
+          UPDATE display_events SET endDate = date;
+        `)
+        this.db.pragma("user_version = 6")
+      })()
+    }
+
+    if (version < 7) {
+      // Structured cost (see parseCost) + ticket link. NULL priceType means
+      // the source said nothing about cost, so it can't pass a price filter.
+      this.db.transaction(() => {
+        this.db.exec(`
+          ALTER TABLE events ADD COLUMN priceType TEXT;
+          ALTER TABLE events ADD COLUMN priceMin REAL;
+          ALTER TABLE events ADD COLUMN priceMax REAL;
+          ALTER TABLE events ADD COLUMN ticketUrl TEXT;
+          ALTER TABLE display_events ADD COLUMN priceType TEXT;
+          ALTER TABLE display_events ADD COLUMN priceMin REAL;
+          ALTER TABLE display_events ADD COLUMN priceMax REAL;
+          ALTER TABLE display_events ADD COLUMN ticketUrl TEXT;
+        `)
+        this.db.pragma("user_version = 7")
+      })()
+    }
+
+    if (version < 8) {
+      // Audience facet. Raw rows only carry what the source's age fields
+      // said (filled on next fetch); display rows are inferred here too so
+      // the filter works before the next rebuild.
+      this.db.transaction(() => {
+        this.db.exec(`
+          ALTER TABLE events ADD COLUMN audience TEXT;
+          ALTER TABLE display_events ADD COLUMN audience TEXT;
+        `)
+        this.populateDisplayAudience()
+        this.db.pragma("user_version = 8")
+      })()
+    }
+
+    if (version < 9) {
+      // Field-level change history. runStartedAt ties a row to the
+      // source_runs row of the fetch that observed it (that row is written
+      // after the upserts, so its id isn't known yet at insert time).
+      this.db.transaction(() => {
+        this.db.exec(`
+          CREATE TABLE IF NOT EXISTS event_changes (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            eventId TEXT NOT NULL,
+            field TEXT NOT NULL,
+            oldValue TEXT,
+            newValue TEXT,
+            source TEXT NOT NULL,
+            runStartedAt TEXT,
+            changedAt TEXT DEFAULT CURRENT_TIMESTAMP
+          );
+          CREATE INDEX IF NOT EXISTS idx_event_changes_event
+            ON event_changes(eventId, id DESC);
+          CREATE INDEX IF NOT EXISTS idx_event_changes_run
+            ON event_changes(source, runStartedAt);
+          ALTER TABLE display_events ADD COLUMN recentChanges TEXT;
+        `)
+        this.db.pragma("user_version = 9")
+      })()
+    }
+
+    if (version < 10) {
+      // Full-text index over display rows (rowid = display_events.id),
+      // refilled by every rebuild. Standalone rather than external-content
+      // so category names can be indexed decoded, not as raw JSON. Filled
+      // once all migrations have run (it reads columns added after v10).
+      this.db.transaction(() => {
+        this.db.exec(`
+          CREATE VIRTUAL TABLE IF NOT EXISTS display_events_fts USING fts5(
+            title, location, city, category, source, description,
+            tokenize = 'unicode61 remove_diacritics 2'
+          );
+        `)
+        this.db.pragma("user_version = 10")
+      })()
+    }
+
+    if (version < 11) {
+      // Canonical venues. Venue-rule venues are seeded by syncRuleVenues;
+      // every other venue is created from a location string the first time
+      // an event is linked to it. Existing events are linked here so dedup
+      // and search can use venueId before the next fetch.
+      this.db.transaction(() => {
+        this.db.exec(`
+          CREATE TABLE IF NOT EXISTS venues (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            slug TEXT UNIQUE NOT NULL,
+            name TEXT NOT NULL,
+            address TEXT,
+            city TEXT,
+            latitude REAL,
+            longitude REAL,
+            aliases TEXT NOT NULL DEFAULT '[]',
+            createdAt TEXT DEFAULT CURRENT_TIMESTAMP,
+            updatedAt TEXT DEFAULT CURRENT_TIMESTAMP
+          );
+          ALTER TABLE events ADD COLUMN venueId INTEGER;
+          ALTER TABLE display_events ADD COLUMN venueId INTEGER;
+          CREATE INDEX IF NOT EXISTS idx_events_venue ON events(venueId);
+          CREATE INDEX IF NOT EXISTS idx_display_events_venue
+            ON display_events(venueId, date);
+        `)
+        this.linkEventVenues()
+        this.db.exec(`
+          UPDATE display_events SET venueId = (
+            SELECT e.venueId FROM events e WHERE e.eventId = display_events.eventId
+          )
+        `)
+        reindexSearch = true
+        this.db.pragma("user_version = 11")
+      })()
+    }
+
+    if (version < 12) {
+      // Normalized category taxonomy, mapped at rebuild time from the raw
+      // categories (which stay in `categories`). The v13 migration maps the
+      // existing rows — populateDisplayTaxonomy reads its columns too.
+      this.db.transaction(() => {
+        this.db.exec(
+          "ALTER TABLE display_events ADD COLUMN normalizedCategories TEXT",
+        )
+        reindexSearch = true
+        this.db.pragma("user_version = 12")
+      })()
+    }
+
+    if (version < 13) {
+      // Keyword category inference, stored on the raw rows by the
+      // pipeline's inference step; display rows record which of their
+      // categories were inferred.
+      this.db.transaction(() => {
+        this.db.exec(`
+          ALTER TABLE events ADD COLUMN inferredCategories TEXT;
+          ALTER TABLE display_events ADD COLUMN inferredCategories TEXT;
+        `)
+        this.inferEventCategories()
+        this.populateDisplayTaxonomy()
+        reindexSearch = true
+        this.db.pragma("user_version = 13")
+      })()
+    }
+
+    if (version < 14) {
+      // Manual merge/split decisions, kept apart from event_matches (which
+      // persistMatches clears every run).
+      this.db.transaction(() => {
+        this.db.exec(`
+          CREATE TABLE IF NOT EXISTS match_overrides (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            action TEXT NOT NULL CHECK (action IN ('merge', 'split')),
+            keyType TEXT NOT NULL CHECK (keyType IN ('eventId', 'url')),
+            key1 TEXT NOT NULL,
+            key2 TEXT NOT NULL,
+            note TEXT,
+            createdAt TEXT DEFAULT CURRENT_TIMESTAMP,
+            UNIQUE(keyType, key1, key2)
+          );
+        `)
+        this.db.pragma("user_version = 14")
+      })()
+    }
+
+    if (version < 15) {
+      // Per-signal scores, so borderline matches can be reviewed by signal
+      // rather than from the reasons text.
+      this.db.transaction(() => {
+        this.db.exec(`
+          ALTER TABLE event_matches ADD COLUMN titleScore REAL;
+          ALTER TABLE event_matches ADD COLUMN venueScore REAL;
+          ALTER TABLE event_matches ADD COLUMN timeScore REAL;
+          ALTER TABLE event_matches ADD COLUMN geoScore REAL;
+        `)
+        this.db.pragma("user_version = 15")
+      })()
+    }
+
+    if (version < 16) {
+      // Duplicate clusters (union-find over event_matches), rebuilt with
+      // display_events: one survivor per cluster, every member's listing.
+      this.db.transaction(() => {
+        this.db.exec(`
+          CREATE TABLE IF NOT EXISTS event_clusters (
+            eventId TEXT PRIMARY KEY,
+            survivorEventId TEXT NOT NULL,
+            memberRank INTEGER NOT NULL,
+            source TEXT NOT NULL,
+            url TEXT NOT NULL
+          );
+          CREATE INDEX IF NOT EXISTS idx_event_clusters_survivor
+            ON event_clusters(survivorEventId);
+        `)
+        this.rebuildEventClusters()
+        this.db.pragma("user_version = 16")
+      })()
+    }
+
+    if (version < 17) {
+      // Field provenance for display rows merged across a cluster; filled
+      // on the next rebuild.
+      this.db.transaction(() => {
+        this.db.exec("ALTER TABLE display_events ADD COLUMN fieldSources TEXT")
+        this.db.pragma("user_version = 17")
+      })()
+    }
+
+    if (version < 18) {
+      // Every listing of a display event, replacing the single altUrl for
+      // the UI's source chips (altUrl stays for older clients).
+      this.db.transaction(() => {
+        this.db.exec(`
+          CREATE TABLE IF NOT EXISTS display_event_sources (
+            eventId TEXT NOT NULL,
+            source TEXT NOT NULL,
+            url TEXT NOT NULL,
+            rank INTEGER NOT NULL,
+            PRIMARY KEY (eventId, source)
+          );
+        `)
+        this.populateDisplaySources()
+        this.db.pragma("user_version = 18")
+      })()
+    }
+
+    if (version < 19) {
+      // Monthly and nth-weekday series; tagged now (like v3) so they
+      // collapse right after deploy. Weekly/biweekly tags are unchanged.
+      this.db.transaction(() => {
+        this.tagRecurringSeries()
+        this.db.pragma("user_version = 19")
+      })()
+    }
+
+    if (version < 20) {
+      // Descriptions stored before the sanitizer rebuilt its HTML from
+      // escaped text could carry an unclosed tag with live attributes
+      // (`<img src=x onerror=…`); re-sanitize what's stored.
+      this.db.transaction(() => {
+        for (const table of ["events", "display_events"]) {
+          const rows = this.db
+            .prepare(
+              `SELECT rowid, descriptionHtml FROM ${table} WHERE descriptionHtml IS NOT NULL`,
+            )
+            .all() as { rowid: number; descriptionHtml: string }[]
+          const update = this.db.prepare(
+            `UPDATE ${table} SET descriptionHtml = ? WHERE rowid = ?`,
+          )
+          for (const row of rows) {
+            const { descriptionHtml } = sanitizeDescription(row.descriptionHtml)
+            if (descriptionHtml !== row.descriptionHtml) {
+              update.run(descriptionHtml, row.rowid)
+            }
+          }
+        }
+        this.db.pragma("user_version = 20")
+      })()
+    }
+
+    if (version < 21) {
+      // The Simpleview fetchers used to store each listing's recurrence
+      // series bounds as startDate/endDate; they now store the day itself.
+      // Fix the existing rows too, before the next fetch, so they don't
+      // stay listed as months-long events or log the rewrite as a change.
+      this.db.transaction(() => {
+        const placeholders = SERIES_SPAN_SOURCES.map(() => "?").join(", ")
+        this.db
+          .prepare(
+            `UPDATE events SET startDate = date, endDate = date
+             WHERE source IN (${placeholders})`,
+          )
+          .run(...SERIES_SPAN_SOURCES)
+        this.db
+          .prepare(
+            `UPDATE display_events SET endDate = date
+             WHERE source IN (${placeholders})`,
+          )
+          .run(...SERIES_SPAN_SOURCES)
+        this.db.pragma("user_version = 21")
+      })()
+    }
+
+    if (reindexSearch) {
+      this.db.transaction(() => this.populateSearchIndex())()
+    }
   }
 
   /** First category name from the categories JSON, decoded, or null. */
@@ -327,6 +830,166 @@ export class EventDatabase {
     return null
   }
 
+  /** Every category name in the categories JSON, decoded. */
+  private extractCategoryNames(categoriesRaw: string | null): string[] {
+    if (!categoriesRaw) return []
+    try {
+      const parsed = JSON.parse(categoriesRaw) as unknown
+      if (!Array.isArray(parsed)) return []
+      const names: string[] = []
+      for (const item of parsed) {
+        if (typeof item === "string") {
+          names.push(decodeHtmlEntities(item))
+        } else if (item && typeof item === "object") {
+          const record = item as Record<string, unknown>
+          const name = record.catName ?? record.name
+          if (typeof name === "string") names.push(decodeHtmlEntities(name))
+        }
+      }
+      return names
+    } catch {
+      return [decodeHtmlEntities(categoriesRaw)]
+    }
+  }
+
+  /**
+   * Set display_events.audience: the raw event's source-provided audience
+   * when it has one, otherwise keywords from the title and category names.
+   * Callers run it inside their own transaction.
+   */
+  private populateDisplayAudience(): void {
+    const rows = this.db
+      .prepare(
+        `SELECT d.id, d.title, d.categories, e.audience AS sourceAudience
+         FROM display_events d
+         LEFT JOIN events e ON e.eventId = d.eventId`,
+      )
+      .all() as {
+      id: number
+      title: string
+      categories: string | null
+      sourceAudience: string | null
+    }[]
+    const update = this.db.prepare(
+      "UPDATE display_events SET audience = ? WHERE id = ?",
+    )
+    for (const row of rows) {
+      const fromSource = parseAudience(row.sourceAudience)
+      const audience = fromSource.length
+        ? fromSource
+        : matchAudience([row.title, ...this.extractCategoryNames(row.categories)])
+      update.run(serializeAudience(audience), row.id)
+    }
+  }
+
+  /**
+   * Map each display row onto the city's category taxonomy: its source's
+   * raw category names, plus whatever the inference step stored on the raw
+   * row (see inferEventCategories). Callers run it inside their own
+   * transaction.
+   */
+  private populateDisplayTaxonomy(): void {
+    const taxonomy = getActiveCity().categoryTaxonomy
+    const rows = this.db
+      .prepare(
+        `SELECT d.id, d.categories, d.source, e.inferredCategories
+         FROM display_events d
+         LEFT JOIN events e ON e.eventId = d.eventId`,
+      )
+      .all() as {
+      id: number
+      categories: string | null
+      source: string
+      inferredCategories: string | null
+    }[]
+    const update = this.db.prepare(
+      "UPDATE display_events SET normalizedCategories = ?, inferredCategories = ? WHERE id = ?",
+    )
+    for (const row of rows) {
+      const fromSource = mapSourceCategories(taxonomy, {
+        source: row.source,
+        rawCategories: this.extractCategoryNames(row.categories),
+      })
+      const inferred = parseCategoryIds(row.inferredCategories).filter(
+        (id) => !fromSource.includes(id),
+      )
+      update.run(
+        serializeCategoryIds(
+          orderCategoryIds(taxonomy, new Set([...fromSource, ...inferred])),
+        ),
+        serializeCategoryIds(inferred),
+        row.id,
+      )
+    }
+  }
+
+  /**
+   * Refill display_events_fts from display_events. The location column also
+   * carries the linked venue's canonical name and aliases, so a search for
+   * "Sommervold" finds Pavilion events listed under either spelling.
+   * Callers run it inside their own transaction.
+   */
+  private populateSearchIndex(): void {
+    const taxonomy = getActiveCity().categoryTaxonomy
+    this.db.prepare("DELETE FROM display_events_fts").run()
+    const rows = this.db
+      .prepare(
+        `SELECT d.id, d.title, d.location, d.city, d.categories, d.normalizedCategories,
+                d.source, d.description, v.name AS venueName, v.aliases AS venueAliases
+         FROM display_events d
+         LEFT JOIN venues v ON v.id = d.venueId`,
+      )
+      .all() as {
+      id: number
+      title: string
+      location: string | null
+      city: string | null
+      categories: string | null
+      normalizedCategories: string | null
+      source: string
+      description: string | null
+      venueName: string | null
+      venueAliases: string | null
+    }[]
+    const insert = this.db.prepare(
+      `INSERT INTO display_events_fts (rowid, title, location, city, category, source, description)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    )
+    for (const row of rows) {
+      const venueTexts = [
+        row.location,
+        row.venueName,
+        ...parseVenueAliases(row.venueAliases),
+      ].filter((text): text is string => Boolean(text))
+      insert.run(
+        row.id,
+        row.title,
+        [...new Set(venueTexts)].join(" "),
+        row.city,
+        [
+          ...this.extractCategoryNames(row.categories),
+          ...parseCategoryIds(row.normalizedCategories).map(
+            (id) => findTaxonomyCategory(taxonomy, id)?.label ?? id,
+          ),
+        ].join(" "),
+        row.source,
+        row.description,
+      )
+    }
+  }
+
+  /**
+   * Free text → FTS5 query: every word must appear (any column, any order),
+   * each as a prefix so "jaz" finds "jazz". Words are quoted so FTS syntax
+   * characters in user input can't produce a query error. Returns null
+   * when the text has no searchable words.
+   */
+  private toFtsQuery(text: string): string | null {
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu)
+    if (!words) return null
+    return words.map((word) => `"${word}"*`).join(" ")
+  }
+
   /**
    * Set display_events.category from the categories JSON. One UPDATE per
    * distinct categories string, so this touches far fewer rows than a
@@ -427,24 +1090,40 @@ export class EventDatabase {
     return `${year}-${month}-${day}`
   }
 
+  /**
+   * Upsert one fetched event. When the row already exists, tracked field
+   * differences are appended to event_changes, tagged with runStartedAt
+   * (the fetch run's startedAt) when the caller has one.
+   */
   insertEvent(
     event: Omit<StoredEvent, "id" | "createdAt" | "updatedAt">,
+    runStartedAt: string | null = null,
   ): void {
     const stmt = this.db.prepare(`
-      INSERT INTO events (eventId, title, url, location, date, startTime, startDate, endDate, latitude, longitude, city, imageUrl, categories, source, lastSeenAt)
-      VALUES (@eventId, @title, @url, @location, @date, @startTime, @startDate, @endDate, @latitude, @longitude, @city, @imageUrl, @categories, @source, CURRENT_TIMESTAMP)
+      INSERT INTO events (eventId, title, url, location, venueId, date, startTime, endTime, allDay, startDate, endDate, latitude, longitude, city, imageUrl, description, descriptionHtml, priceType, priceMin, priceMax, ticketUrl, audience, categories, source, lastSeenAt)
+      VALUES (@eventId, @title, @url, @location, @venueId, @date, @startTime, @endTime, @allDay, @startDate, @endDate, @latitude, @longitude, @city, @imageUrl, @description, @descriptionHtml, @priceType, @priceMin, @priceMax, @ticketUrl, @audience, @categories, @source, CURRENT_TIMESTAMP)
       ON CONFLICT(eventId) DO UPDATE SET
         title = @title,
         url = @url,
         location = COALESCE(@location, events.location),
+        venueId = COALESCE(@venueId, events.venueId),
         date = @date,
         startTime = @startTime,
+        endTime = @endTime,
+        allDay = @allDay,
         startDate = @startDate,
         endDate = @endDate,
         latitude = COALESCE(@latitude, events.latitude),
         longitude = COALESCE(@longitude, events.longitude),
         city = COALESCE(@city, events.city),
         imageUrl = COALESCE(@imageUrl, events.imageUrl),
+        description = COALESCE(@description, events.description),
+        descriptionHtml = COALESCE(@descriptionHtml, events.descriptionHtml),
+        priceType = @priceType,
+        priceMin = @priceMin,
+        priceMax = @priceMax,
+        ticketUrl = @ticketUrl,
+        audience = @audience,
         categories = @categories,
         updatedAt = CURRENT_TIMESTAMP,
         -- "Seen upstream" signal; distinct from updatedAt, which venue
@@ -462,11 +1141,95 @@ export class EventDatabase {
       city: event.city ? decodeHtmlEntities(event.city) : event.city,
       date: this.normalizeDate(event.date),
       startTime: this.normalizeTime(event.startTime),
+      endTime: this.normalizeTime(event.endTime),
+      // SQLite has no boolean; better-sqlite3 refuses to bind one.
+      allDay: event.allDay ? 1 : 0,
       startDate: this.normalizeDate(event.startDate),
       endDate: this.normalizeDate(event.endDate),
     }
+    const venueId = this.resolveVenueId(normalizedEvent)
 
-    stmt.run(normalizedEvent)
+    const previous = this.db
+      .prepare(
+        `SELECT ${TRACKED_EVENT_FIELDS.join(", ")} FROM events WHERE eventId = ?`,
+      )
+      .get(event.eventId) as Record<string, unknown> | undefined
+
+    stmt.run({ ...normalizedEvent, venueId })
+
+    if (previous) {
+      this.recordEventChanges(previous, normalizedEvent, runStartedAt)
+    }
+  }
+
+  /**
+   * Diff a stored row against the values just upserted over it. Location
+   * mirrors the upsert's COALESCE (a missing location keeps the old one)
+   * and is compared after venue rules: enrichment rewrites e.g. "Drekker"
+   * to the canonical address after every fetch, which would otherwise read
+   * as a move on each run.
+   */
+  private recordEventChanges(
+    previous: Record<string, unknown>,
+    next: { [field: string]: unknown; eventId: string; title: string; source: string },
+    runStartedAt: string | null,
+  ): void {
+    const insert = this.db.prepare(`
+      INSERT INTO event_changes (eventId, field, oldValue, newValue, source, runStartedAt)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `)
+    const asText = (value: unknown) => (value == null ? null : String(value))
+
+    for (const field of TRACKED_EVENT_FIELDS) {
+      let incoming = next[field]
+      if (field === "location") {
+        if (incoming == null) continue
+        incoming = this.venueLocationFor(next.title, String(incoming))
+      }
+      const before = asText(previous[field])
+      const after = asText(incoming)
+      if (before === null && MIGRATION_ADDED_EVENT_FIELDS.has(field)) continue
+      if (before !== after) {
+        insert.run(next.eventId, field, before, after, next.source, runStartedAt)
+      }
+    }
+  }
+
+  /** The location venue enrichment would leave on a row, given its title. */
+  private venueLocationFor(title: string, location: string): string {
+    for (const rule of getActiveCity().venueRules) {
+      if (rule.titlePattern.test(title) || rule.titlePattern.test(location)) {
+        return rule.location
+      }
+    }
+    return location
+  }
+
+  /** Change history for one event, newest first. */
+  getEventChanges(eventId: string): EventChange[] {
+    return this.db
+      .prepare(
+        `SELECT c.*, r.id AS runId, r.runType
+         FROM event_changes c
+         LEFT JOIN source_runs r
+           ON r.source = c.source AND r.startedAt = c.runStartedAt
+         WHERE c.eventId = ?
+         ORDER BY c.id DESC`,
+      )
+      .all(eventId) as EventChange[]
+  }
+
+  getEvent(eventId: string): StoredEvent | undefined {
+    return this.db
+      .prepare("SELECT * FROM events WHERE eventId = ?")
+      .get(eventId) as StoredEvent | undefined
+  }
+
+  hasEvent(eventId: string): boolean {
+    return (
+      this.db.prepare("SELECT 1 FROM events WHERE eventId = ?").get(eventId) !==
+      undefined
+    )
   }
 
   getEvents(limit: number = 100, offset: number = 0): StoredEvent[] {
@@ -645,22 +1408,28 @@ export class EventDatabase {
     return new Set(rows.map((r) => r.eventId))
   }
 
-  deleteEventsBySource(source: string): number {
-    // First get event IDs for this source
-    const eventIds = this.getEventIdsBySource(source)
+  /**
+   * Delete a source's events that aren't in `keepEventIds` (the ones its
+   * latest fetch returned), with any matches referencing them.
+   */
+  pruneEventsBySource(source: string, keepEventIds: Set<string>): number {
+    const staleIds = [...this.getEventIdsBySource(source)].filter(
+      (eventId) => !keepEventIds.has(eventId),
+    )
 
-    // Delete any matches referencing these events
     const deleteMatchesStmt = this.db.prepare(`
-      DELETE FROM event_matches
-      WHERE eventId1 IN (SELECT eventId FROM events WHERE source = ?)
-         OR eventId2 IN (SELECT eventId FROM events WHERE source = ?)
+      DELETE FROM event_matches WHERE eventId1 = ? OR eventId2 = ?
     `)
-    deleteMatchesStmt.run(source, source)
-
-    // Then delete the events
-    const stmt = this.db.prepare(`DELETE FROM events WHERE source = ?`)
-    const result = stmt.run(source)
-    return result.changes
+    const deleteEventStmt = this.db.prepare(
+      "DELETE FROM events WHERE eventId = ?",
+    )
+    this.db.transaction(() => {
+      for (const eventId of staleIds) {
+        deleteMatchesStmt.run(eventId, eventId)
+        deleteEventStmt.run(eventId)
+      }
+    })()
+    return staleIds.length
   }
 
   getTotalCount(): number {
@@ -679,15 +1448,29 @@ export class EventDatabase {
     confidence: string
     reasons: string[]
     matchType?: string
+    titleScore?: number
+    venueScore?: number
+    timeScore?: number
+    geoScore?: number
   }): void {
     const stmt = this.db.prepare(`
-      INSERT INTO event_matches (eventId1, eventId2, score, confidence, reasons, matchType)
-      VALUES (@eventId1, @eventId2, @score, @confidence, @reasons, @matchType)
+      INSERT INTO event_matches (
+        eventId1, eventId2, score, confidence, reasons, matchType,
+        titleScore, venueScore, timeScore, geoScore
+      )
+      VALUES (
+        @eventId1, @eventId2, @score, @confidence, @reasons, @matchType,
+        @titleScore, @venueScore, @timeScore, @geoScore
+      )
       ON CONFLICT(eventId1, eventId2) DO UPDATE SET
         score = @score,
         confidence = @confidence,
         reasons = @reasons,
-        matchType = @matchType
+        matchType = @matchType,
+        titleScore = @titleScore,
+        venueScore = @venueScore,
+        timeScore = @timeScore,
+        geoScore = @geoScore
     `)
 
     stmt.run({
@@ -697,6 +1480,10 @@ export class EventDatabase {
       confidence: match.confidence,
       reasons: JSON.stringify(match.reasons),
       matchType: match.matchType || "auto",
+      titleScore: match.titleScore ?? null,
+      venueScore: match.venueScore ?? null,
+      timeScore: match.timeScore ?? null,
+      geoScore: match.geoScore ?? null,
     })
   }
 
@@ -704,6 +1491,126 @@ export class EventDatabase {
     this.db.exec("DELETE FROM event_matches")
   }
 
+  /**
+   * Record a merge/split for a key pair (see overrideKeyPair for the
+   * canonical form). Replaces any earlier decision for the same pair.
+   */
+  setMatchOverride(override: {
+    action: MatchOverrideAction
+    keyType: MatchOverrideKeyType
+    key1: string
+    key2: string
+    note?: string | null
+  }): MatchOverride {
+    return this.db
+      .prepare(
+        `
+      INSERT INTO match_overrides (action, keyType, key1, key2, note)
+      VALUES (@action, @keyType, @key1, @key2, @note)
+      ON CONFLICT(keyType, key1, key2) DO UPDATE SET
+        action = @action,
+        note = @note,
+        createdAt = CURRENT_TIMESTAMP
+      RETURNING *
+    `,
+      )
+      .get({ ...override, note: override.note ?? null }) as MatchOverride
+  }
+
+  removeMatchOverride(
+    keyType: MatchOverrideKeyType,
+    key1: string,
+    key2: string,
+  ): boolean {
+    const result = this.db
+      .prepare(
+        "DELETE FROM match_overrides WHERE keyType = ? AND key1 = ? AND key2 = ?",
+      )
+      .run(keyType, key1, key2)
+    return result.changes > 0
+  }
+
+  /** All overrides, oldest first — the order buildAllMatches applies them. */
+  getMatchOverrides(): MatchOverride[] {
+    return this.db
+      .prepare("SELECT * FROM match_overrides ORDER BY createdAt, id")
+      .all() as MatchOverride[]
+  }
+
+  /**
+   * Scored (not manual) low/medium matches that still involve an upcoming
+   * event — the human review queue. Medium first, then by score.
+   */
+  getMatchReviewQueue(limit: number = 100): MatchReviewItem[] {
+    const today = this.getCurrentDateInTimeZone(this.displayTimeZone)
+    const matches = this.db
+      .prepare(
+        `
+      SELECT m.* FROM event_matches m
+      JOIN events e1 ON e1.eventId = m.eventId1
+      JOIN events e2 ON e2.eventId = m.eventId2
+      WHERE m.confidence IN ('low', 'medium')
+        AND m.matchType = 'auto'
+        AND (e1.endDate >= @today OR e2.endDate >= @today)
+      ORDER BY m.confidence = 'medium' DESC, m.score DESC, m.id
+      LIMIT @limit
+    `,
+      )
+      .all({ today, limit }) as EventMatch[]
+
+    const getEvent = this.db.prepare("SELECT * FROM events WHERE eventId = ?")
+    return matches.map((match) => ({
+      match,
+      dropped: getEvent.get(match.eventId1) as StoredEvent,
+      kept: getEvent.get(match.eventId2) as StoredEvent,
+    }))
+  }
+
+  /**
+   * Record a reviewer's verdict on a scored match as an eventId-pair
+   * override, and apply it to event_matches right away so the pair leaves
+   * the queue. display_events picks it up on the next rebuild. Returns
+   * null when the match no longer exists (a dedup ran in between).
+   */
+  resolveMatchReview(
+    matchId: number,
+    action: MatchOverrideAction,
+  ): MatchOverride | null {
+    return this.db.transaction(() => {
+      const match = this.db
+        .prepare("SELECT * FROM event_matches WHERE id = ?")
+        .get(matchId) as EventMatch | undefined
+      if (!match) return null
+
+      const [key1, key2] = overrideKeyPair(
+        "eventId",
+        match.eventId1,
+        match.eventId2,
+      )
+      const override = this.setMatchOverride({
+        action,
+        keyType: "eventId",
+        key1,
+        key2,
+        note: "review queue",
+      })
+      if (action === "merge") {
+        this.db
+          .prepare(
+            `
+          UPDATE event_matches
+          SET score = 1, confidence = 'high', matchType = 'manual', reasons = ?
+          WHERE id = ?
+        `,
+          )
+          .run(JSON.stringify(["manual merge override: review queue"]), matchId)
+      } else {
+        this.db.prepare("DELETE FROM event_matches WHERE id = ?").run(matchId)
+      }
+      return override
+    })()
+  }
+
   getMatches(minConfidence?: string): EventMatch[] {
     let sql = "SELECT * FROM event_matches"
     if (minConfidence) {
@@ -719,6 +1626,25 @@ export class EventDatabase {
     return this.db.prepare(sql).all() as EventMatch[]
   }
 
+  /** Every match touching one event, strongest first. */
+  getMatchesForEvent(eventId: string): EventMatchExplanation[] {
+    const matches = this.db
+      .prepare(
+        `SELECT * FROM event_matches
+         WHERE eventId1 = ? OR eventId2 = ?
+         ORDER BY score DESC, id`,
+      )
+      .all(eventId, eventId) as EventMatch[]
+    return matches.map((match) => {
+      const dropped = match.eventId1 === eventId
+      return {
+        match,
+        side: dropped ? "dropped" : "kept",
+        other: this.getEvent(dropped ? match.eventId2 : match.eventId1),
+      }
+    })
+  }
+
   getMatchCount(): number {
     const result = this.db
       .prepare("SELECT COUNT(*) as count FROM event_matches")
@@ -809,57 +1735,245 @@ export class EventDatabase {
     const todayInFargo = this.getCurrentDateInTimeZone(this.displayTimeZone)
 
     // Single SQL pass replacing the old load-everything-into-JS rebuild.
-    // Semantics match getDeduplicatedEvents(): drop rows that appear as
-    // eventId1 (the dropped side) of a high/medium match; surface the
-    // dropped row's URL as altUrl only for cross-source matches. Past
-    // events are excluded — the query layer already clamps to today, so
-    // they were dead rows.
+    // Only each duplicate cluster's survivor gets a row (see
+    // rebuildEventClusters), its fields then merged from every member; the
+    // best other-source member's URL becomes altUrl. Past events are
+    // excluded — the query layer already clamps to today, so they were
+    // dead rows — except multi-day events still running today.
     const transaction = this.db.transaction(() => {
+      this.rebuildEventClusters()
       this.db.prepare("DELETE FROM display_events").run()
       const result = this.db
         .prepare(
           `
-        INSERT INTO display_events (eventId, title, url, altUrl, location, date, startTime, city, imageUrl, categories, source, latitude, longitude)
+        INSERT INTO display_events (eventId, title, url, altUrl, location, venueId, date, startTime, endDate, endTime, allDay, city, imageUrl, description, descriptionHtml, priceType, priceMin, priceMax, ticketUrl, categories, source, latitude, longitude)
         SELECT
           e.eventId,
           e.title,
           e.url,
           (
-            SELECT e1.url
-            FROM event_matches m
-            JOIN events e1 ON e1.eventId = m.eventId1
-            WHERE m.eventId2 = e.eventId
-              AND m.confidence IN ('high', 'medium')
-              AND e1.source <> e.source
-            ORDER BY m.score DESC, m.id DESC
+            SELECT c.url
+            FROM event_clusters c
+            WHERE c.survivorEventId = e.eventId
+              AND c.source <> e.source
+            ORDER BY c.memberRank
             LIMIT 1
           ),
           e.location,
+          e.venueId,
           e.date,
           e.startTime,
+          MAX(e.date, COALESCE(e.endDate, e.date)),
+          e.endTime,
+          COALESCE(e.allDay, 0),
           e.city,
           e.imageUrl,
+          e.description,
+          e.descriptionHtml,
+          e.priceType,
+          e.priceMin,
+          e.priceMax,
+          e.ticketUrl,
           e.categories,
           e.source,
           e.latitude,
           e.longitude
         FROM events e
-        WHERE e.date >= @today
+        WHERE MAX(e.date, COALESCE(e.endDate, e.date)) >= @today
           AND e.eventId NOT IN (
-            SELECT eventId1 FROM event_matches WHERE confidence IN ('high', 'medium')
+            SELECT eventId FROM event_clusters WHERE eventId <> survivorEventId
           )
       `,
         )
         .run({ today: todayInFargo })
+      this.mergeDisplayClusters()
+      this.populateDisplaySources()
       this.populateDisplayCategories()
+      this.populateDisplayTaxonomy()
+      this.populateDisplayAudience()
+      this.populateSearchIndex()
       this.tagRecurringSeries()
       this.flagPossiblyCancelled()
+      this.flagRecentChanges()
       return result.changes
     })
 
     return transaction()
   }
 
+  /**
+   * Group high/medium matches into duplicate clusters (src/dedup/cluster.ts)
+   * and store every member with its cluster's survivor, ranked survivor
+   * first by dedupPriority. Pairwise drops alone let a four-source listing
+   * drop the wrong row or keep two; a cluster always yields one row.
+   * Split overrides keep their pairs in separate clusters. Callers run it
+   * inside their own transaction.
+   */
+  private rebuildEventClusters(): void {
+    const matches = this.db
+      .prepare(
+        `
+      SELECT eventId1, eventId2, score FROM event_matches
+      WHERE confidence IN ('high', 'medium')
+    `,
+      )
+      .all() as { eventId1: string; eventId2: string; score: number }[]
+    const rows = this.db
+      .prepare(
+        `
+      SELECT id, eventId, source, url FROM events
+      WHERE eventId IN (
+        SELECT eventId1 FROM event_matches WHERE confidence IN ('high', 'medium')
+        UNION
+        SELECT eventId2 FROM event_matches WHERE confidence IN ('high', 'medium')
+      )
+    `,
+      )
+      .all() as (ClusterEvent & { url: string })[]
+    const events = new Map(rows.map((row) => [row.eventId, row]))
+    const priorityBySource = new Map(
+      SOURCE_INFO.map((info) => [info.source, info.dedupPriority]),
+    )
+
+    this.db.prepare("DELETE FROM event_clusters").run()
+    const insert = this.db.prepare(`
+      INSERT INTO event_clusters (eventId, survivorEventId, memberRank, source, url)
+      VALUES (?, ?, ?, ?, ?)
+    `)
+    const overrides = this.getMatchOverrides()
+    const splits = overrides.some((override) => override.action === "split")
+      ? splitPairs(
+          overrides,
+          this.db
+            .prepare("SELECT id, eventId, source, url, date FROM events")
+            .all() as Pick<
+            StoredEvent,
+            "id" | "eventId" | "source" | "url" | "date"
+          >[],
+        )
+      : []
+    const clusters = clusterMatches(
+      matches,
+      events,
+      (source) => priorityBySource.get(source) ?? 0,
+      splits,
+    )
+    for (const { survivor, members } of clusters) {
+      members.forEach((member, rank) => {
+        insert.run(
+          member.eventId,
+          survivor.eventId,
+          rank,
+          member.source,
+          events.get(member.eventId)!.url,
+        )
+      })
+    }
+  }
+
+  /**
+   * Rebuild each surviving cluster row from its members' best values
+   * (mergeClusterFields) — a dropped fargomoorhead.org listing often has
+   * the coordinates or image the survivor lacks — and record where each
+   * field came from. Callers run it inside their own transaction.
+   */
+  private mergeDisplayClusters(): void {
+    const rows = this.db
+      .prepare(
+        `
+      SELECT e.*, c.survivorEventId FROM event_clusters c
+      JOIN events e ON e.eventId = c.eventId
+      WHERE c.survivorEventId IN (SELECT eventId FROM display_events)
+      ORDER BY c.survivorEventId, c.memberRank
+    `,
+      )
+      .all() as (StoredEvent & { survivorEventId: string })[]
+
+    const membersBySurvivor = new Map<string, StoredEvent[]>()
+    for (const row of rows) {
+      const members = membersBySurvivor.get(row.survivorEventId) || []
+      members.push(row)
+      membersBySurvivor.set(row.survivorEventId, members)
+    }
+
+    const update = this.db.prepare(`
+      UPDATE display_events SET
+        title = @title,
+        startTime = @startTime,
+        endTime = @endTime,
+        allDay = @allDay,
+        location = @location,
+        venueId = @venueId,
+        city = @city,
+        latitude = @latitude,
+        longitude = @longitude,
+        imageUrl = @imageUrl,
+        description = @description,
+        descriptionHtml = @descriptionHtml,
+        priceType = @priceType,
+        priceMin = @priceMin,
+        priceMax = @priceMax,
+        ticketUrl = @ticketUrl,
+        fieldSources = @fieldSources
+      WHERE eventId = @eventId
+    `)
+    for (const [eventId, members] of membersBySurvivor) {
+      const { fields, provenance } = mergeClusterFields(members)
+      update.run({
+        ...fields,
+        allDay: fields.allDay ? 1 : 0,
+        fieldSources: JSON.stringify(provenance),
+        eventId,
+      })
+    }
+  }
+
+  /**
+   * One display_event_sources row per source carrying each display event:
+   * the row's own listing first, then its cluster members in rank order. A
+   * source's reposts (same-source cluster members) collapse into its
+   * first listing. Callers run it inside their own transaction.
+   */
+  private populateDisplaySources(): void {
+    this.db.exec(`
+      DELETE FROM display_event_sources;
+
+      INSERT INTO display_event_sources (eventId, source, url, rank)
+      SELECT eventId, source, url, 0 FROM display_events;
+
+      INSERT OR IGNORE INTO display_event_sources (eventId, source, url, rank)
+      SELECT c.survivorEventId, c.source, c.url, c.memberRank
+      FROM event_clusters c
+      WHERE c.survivorEventId IN (SELECT eventId FROM display_events)
+      ORDER BY c.survivorEventId, c.memberRank;
+    `)
+  }
+
+  /** Listings per display eventId, in rank order (the row's own first). */
+  getDisplayEventSources(
+    eventIds: string[],
+  ): Map<string, DisplayEventSource[]> {
+    const byEventId = new Map<string, DisplayEventSource[]>()
+    if (eventIds.length === 0) return byEventId
+    const rows = this.db
+      .prepare(
+        `
+      SELECT eventId, source, url FROM display_event_sources
+      WHERE eventId IN (SELECT value FROM json_each(?))
+      ORDER BY eventId, rank
+    `,
+      )
+      .all(JSON.stringify(eventIds)) as (DisplayEventSource & {
+      eventId: string
+    })[]
+    for (const { eventId, source, url } of rows) {
+      const sources = byEventId.get(eventId) || []
+      sources.push({ source, url })
+      byEventId.set(eventId, sources)
+    }
+    return byEventId
+  }
+
   /**
    * Flag future display rows whose raw event was NOT returned by the most
    * recent successful fetch of its source — the upstream listing vanished,
@@ -914,15 +2028,55 @@ export class EventDatabase {
     }
   }
 
+  /**
+   * Copy onto each display row the tracked fields its source's most recent
+   * successful fetch changed, for the UI's "Time changed" / "Moved" badges.
+   * A later fetch that changes nothing clears them. Callers run it inside
+   * their own transaction.
+   */
+  private flagRecentChanges(): void {
+    const lastOkRun = this.db.prepare(
+      `SELECT startedAt FROM source_runs
+       WHERE source = ? AND status = 'ok' AND startedAt IS NOT NULL
+       ORDER BY id DESC LIMIT 1`,
+    )
+    const changed = this.db.prepare(
+      `SELECT eventId, json_group_array(DISTINCT field) AS fields
+       FROM event_changes
+       WHERE source = ? AND runStartedAt = ?
+       GROUP BY eventId`,
+    )
+    const update = this.db.prepare(
+      "UPDATE display_events SET recentChanges = ? WHERE eventId = ?",
+    )
+
+    for (const info of SOURCE_INFO) {
+      const run = lastOkRun.get(info.source) as
+        | { startedAt: string }
+        | undefined
+      if (!run) continue
+      const rows = changed.all(info.source, run.startedAt) as {
+        eventId: string
+        fields: string
+      }[]
+      for (const row of rows) {
+        update.run(row.fields, row.eventId)
+      }
+    }
+  }
+
   /**
    * Detect recurring series ("Trivia every Tuesday") among display rows and
    * tag them so the query layer can collapse a series to its next
    * occurrence. A group is the same (source, normalized title, location); it
-   * counts as a series when its distinct dates are uniformly 7 days apart
-   * (or uniformly 14 → "biweekly") — with ≥3 dates, or with exactly 2 dates
-   * when every row also shares one non-null start time and a non-null
-   * location (the usual 14-day fetch window only ever shows 2 occurrences of
-   * a weekly event, but the stricter rule keeps two-part workshops intact).
+   * counts as a series when its distinct dates follow a cadence (see
+   * detectCadence: weekly, biweekly, nth weekday or day of the month) — with
+   * ≥3 dates, or with exactly 2 weekly or monthly dates when every row also
+   * shares one non-null start time and a non-null location (the usual 14-day
+   * fetch window only ever shows 2 occurrences of a weekly event, and only a
+   * source fetched further ahead shows 2 of a monthly one; the stricter rule
+   * keeps two-part workshops intact). Sources fetched 90+ days ahead need 3
+   * monthly dates.
    * Sports schedules are excluded; weekly games are the product, not noise.
    * Callers run it inside their own transaction.
    */
@@ -950,9 +2104,14 @@ export class EventDatabase {
       groups.set(key, list)
     }
 
-    const dayNumber = (date: string) =>
-      Date.UTC(+date.slice(0, 4), +date.slice(5, 7) - 1, +date.slice(8, 10)) /
-      86_400_000
+    // A source fetched 3+ months ahead would already list a third monthly
+    // occurrence, so two dates a month apart there are more likely a
+    // return engagement (same tour, same arena) than a series.
+    const longHorizonSources = new Set(
+      SOURCE_INFO.filter((info) => (info.fetchHorizonDays ?? 0) >= 90).map(
+        (info) => info.source,
+      ),
+    )
 
     const update = this.db.prepare(
       `UPDATE display_events
@@ -962,20 +2121,15 @@ export class EventDatabase {
 
     for (const [key, members] of groups) {
       const dates = Array.from(new Set(members.map((m) => m.date))).sort()
-      if (dates.length < 2) continue
-
-      const gaps: number[] = []
-      for (let i = 1; i < dates.length; i++) {
-        gaps.push(dayNumber(dates[i]) - dayNumber(dates[i - 1]))
-      }
-      const uniform = (n: number) => gaps.every((g) => g === n)
-      const cadence = uniform(7) ? "weekly" : uniform(14) ? "biweekly" : null
+      const cadence = detectCadence(dates)
       if (!cadence) continue
 
       if (dates.length === 2) {
         const startTimes = new Set(members.map((m) => m.startTime))
         if (
-          cadence !== "weekly" ||
+          cadence.kind === "biweekly" ||
+          (cadence.kind === "monthly" &&
+            longHorizonSources.has(members[0].source)) ||
           startTimes.size !== 1 ||
           startTimes.has(null) ||
           members[0].location == null
@@ -985,7 +2139,7 @@ export class EventDatabase {
       }
 
       for (const member of members) {
-        update.run(key, dates.length, cadence, member.id)
+        update.run(key, dates.length, cadence.label, member.id)
       }
     }
   }
@@ -999,13 +2153,39 @@ export class EventDatabase {
     const todayInFargo = this.getCurrentDateInTimeZone(this.displayTimeZone)
     const stmt = this.db.prepare(`
       SELECT * FROM display_events
-      WHERE date >= ?
+      WHERE endDate >= ?
       ORDER BY date ${dir}, COALESCE(startTime, '23:59:59') ${dir}, id ${dir}
       LIMIT ? OFFSET ?
     `)
     return stmt.all(todayInFargo, limit, offset) as DisplayEvent[]
   }
 
+  /**
+   * The city's taxonomy categories, in taxonomy order, with the number of
+   * upcoming display rows in each.
+   */
+  getTaxonomyCategories(): { id: string; label: string; count: number }[] {
+    const today = this.getCurrentDateInTimeZone(this.displayTimeZone)
+    const counts = new Map(
+      (
+        this.db
+          .prepare(
+            `SELECT j.value AS id, COUNT(*) AS count
+             FROM display_events d, json_each(d.normalizedCategories) j
+             WHERE d.normalizedCategories IS NOT NULL AND d.endDate >= ?
+             GROUP BY j.value`,
+          )
+          .all(today) as { id: string; count: number }[]
+      ).map((row) => [row.id, row.count]),
+    )
+    return getActiveCity().categoryTaxonomy.categories.map((category) => ({
+      id: category.id,
+      label: category.label,
+      count: counts.get(category.id) ?? 0,
+    }))
+  }
+
+  /** Raw source category names across display rows (pre-taxonomy). */
   getDistinctCategories(): string[] {
     const rows = this.db
       .prepare(
@@ -1042,7 +2222,7 @@ export class EventDatabase {
   getDisplayCount(): number {
     const todayInFargo = this.getCurrentDateInTimeZone(this.displayTimeZone)
     const result = this.db
-      .prepare("SELECT COUNT(*) as count FROM display_events WHERE date >= ?")
+      .prepare("SELECT COUNT(*) as count FROM display_events WHERE endDate >= ?")
       .get(todayInFargo) as { count: number }
     return result.count
   }
@@ -1057,8 +2237,13 @@ export class EventDatabase {
     dateTo: string = "",
     includeSports: boolean = false,
     collapseRepeats: boolean = false,
+    freeOnly: boolean = false,
+    maxPrice: number | null = null,
+    audience: Audience | null = null,
+    orderBy: "date" | "relevance" = "date",
+    venueId: number | null = null,
   ): DisplayEventQueryResult {
-    const normalizedQuery = searchQuery.trim().toLowerCase()
+    const ftsQuery = this.toFtsQuery(searchQuery)
     const normalizedCategory = category.trim().toLowerCase()
     const dir = sortDir === "desc" ? "DESC" : "ASC"
     const todayInFargo = this.getCurrentDateInTimeZone(this.displayTimeZone)
@@ -1067,7 +2252,9 @@ export class EventDatabase {
     const effectiveDateFrom =
       dateFrom && dateFrom >= todayInFargo ? dateFrom : todayInFargo
 
-    const conditions: string[] = ["date >= ?"]
+    // Range overlap rather than start-date-in-range, so a festival or
+    // exhibit that began earlier is still listed on each day it spans.
+    const conditions: string[] = ["endDate >= ?"]
     const params: unknown[] = [effectiveDateFrom]
 
     if (dateTo) {
@@ -1075,19 +2262,12 @@ export class EventDatabase {
       params.push(dateTo)
     }
 
-    if (normalizedQuery) {
-      const likeParam = `%${normalizedQuery}%`
-      conditions.push(`(
-             lower(title) LIKE ?
-         OR lower(coalesce(location, '')) LIKE ?
-         OR lower(coalesce(city, '')) LIKE ?
-         OR lower(coalesce(categories, '')) LIKE ?
-         OR lower(coalesce(source, '')) LIKE ?
-        )`)
-      params.push(likeParam, likeParam, likeParam, likeParam, likeParam)
-    }
-
-    if (normalizedCategory) {
+    // A taxonomy id filters on the normalized categories; anything else
+    // is a raw source category name, still matched against the raw JSON.
+    if (findTaxonomyCategory(getActiveCity().categoryTaxonomy, normalizedCategory)) {
+      conditions.push("normalizedCategories LIKE ?")
+      params.push(`%"${normalizedCategory}"%`)
+    } else if (normalizedCategory) {
       conditions.push("lower(coalesce(categories, '')) LIKE ?")
       params.push(`%${normalizedCategory}%`)
     }
@@ -1102,6 +2282,28 @@ export class EventDatabase {
       params.push(...SPORTS_SOURCES)
     }
 
+    // "Free" is explicit only — an unknown cost (NULL priceType) or
+    // "see site" never passes. maxPrice compares the cheapest ticket.
+    if (freeOnly) {
+      conditions.push("priceType = 'free'")
+    } else if (maxPrice !== null) {
+      conditions.push(
+        "(priceType = 'free' OR (priceType = 'range' AND priceMin <= ?))",
+      )
+      params.push(maxPrice)
+    }
+
+    if (audience) {
+      const values = audienceFilterValues(audience)
+      conditions.push(`(${values.map(() => "audience LIKE ?").join(" OR ")})`)
+      params.push(...values.map((value) => `%"${value}"%`))
+    }
+
+    if (venueId !== null) {
+      conditions.push("venueId = ?")
+      params.push(venueId)
+    }
+
     // Collapse a recurring series to its next occurrence *within the
     // filtered range* — computed live (not baked at rebuild) so it stays
     // correct as days pass between weekly rebuilds and under the
@@ -1118,26 +2320,353 @@ export class EventDatabase {
       params.push(effectiveDateFrom, dateTo, dateTo)
     }
 
-    const whereClause = `WHERE ${conditions.join(" AND ")}`
-    const orderClause = `ORDER BY date ${dir}, COALESCE(startTime, '23:59:59') ${dir}, id ${dir}`
+    // A search joins the FTS matches (which also filters); bm25 weights
+    // title hits above venue/category hits above source/description.
+    const fromClause = ftsQuery
+      ? `display_events JOIN (
+          SELECT rowid AS ftsId,
+                 bm25(display_events_fts, 10.0, 4.0, 2.0, 3.0, 1.0, 1.0) AS ftsRank
+          FROM display_events_fts WHERE display_events_fts MATCH ?
+        ) ranked ON ranked.ftsId = display_events.id`
+      : "display_events"
+    const fromParams: unknown[] = ftsQuery ? [ftsQuery] : []
+
+    // Over a short bounded range (today, the weekend, a week) a multi-day
+    // event gets a row on each day it spans, so it shows under every day
+    // header; otherwise it's listed once, under the first day of the range.
+    const rangeDays = /^\d{4}-\d{2}-\d{2}$/.test(dateTo)
+      ? (Date.parse(dateTo) - Date.parse(effectiveDateFrom)) / 86_400_000
+      : Infinity
+    const expandDays = rangeDays >= 0 && rangeDays < MAX_EXPANDED_RANGE_DAYS
+    const withClause = expandDays
+      ? `WITH RECURSIVE listing_days(day) AS (
+          SELECT ? UNION ALL
+          SELECT date(day, '+1 day') FROM listing_days WHERE day < ?
+        ) `
+      : ""
+    const withParams = expandDays ? [effectiveDateFrom, dateTo] : []
+    const listedFrom = expandDays
+      ? `${fromClause} JOIN listing_days
+          ON listing_days.day BETWEEN display_events.date AND display_events.endDate`
+      : fromClause
+    const occurrenceDate = expandDays ? "listing_days.day" : "MAX(date, ?)"
+    const occurrenceParams = expandDays ? [] : [effectiveDateFrom]
 
+    const whereClause = `WHERE ${conditions.join(" AND ")}`
+    const dateOrder = `occurrenceDate ${dir}, COALESCE(startTime, '23:59:59') ${dir}, id ${dir}`
+    const orderClause =
+      ftsQuery && orderBy === "relevance"
+        ? `ORDER BY ftsRank ASC, ${dateOrder}`
+        : `ORDER BY ${dateOrder}`
+
+    // A row listed after the event's first day is one already under way,
+    // which the UI marks "ongoing".
     const rows = this.db
       .prepare(
-        `SELECT * FROM display_events ${whereClause} ${orderClause} LIMIT ? OFFSET ?`,
+        `${withClause}SELECT display_events.*, ${occurrenceDate} AS occurrenceDate FROM ${listedFrom} ${whereClause} ${orderClause} LIMIT ? OFFSET ?`,
       )
-      .all(...params, limit, offset) as DisplayEvent[]
+      .all(
+        ...withParams,
+        ...occurrenceParams,
+        ...fromParams,
+        ...params,
+        limit,
+        offset,
+      ) as DisplayEvent[]
 
     const total = (
       this.db
         .prepare(
-          `SELECT COUNT(*) as count FROM display_events ${whereClause}`,
+          `${withClause}SELECT COUNT(*) as count FROM ${listedFrom} ${whereClause}`,
         )
-        .get(...params) as { count: number }
+        .get(...withParams, ...fromParams, ...params) as { count: number }
     ).count
 
     return { rows, total }
   }
 
+  /**
+   * Upsert one venues row per city venue rule, keyed by the slug of the
+   * rule's venue name, so coordinate/address fixes in venues.ts reach the
+   * table without a migration. Aliases accumulate: spellings learned from
+   * event locations are kept alongside the rule's own.
+   */
+  private syncRuleVenues(): void {
+    const select = this.db.prepare(
+      "SELECT id, aliases FROM venues WHERE slug = ?",
+    )
+    const insert = this.db.prepare(`
+      INSERT INTO venues (slug, name, address, city, latitude, longitude, aliases)
+      VALUES (@slug, @name, @address, @city, @latitude, @longitude, @aliases)
+    `)
+    const update = this.db.prepare(`
+      UPDATE venues
+      SET name = @name,
+          address = @address,
+          city = @city,
+          latitude = @latitude,
+          longitude = @longitude,
+          aliases = @aliases,
+          updatedAt = CURRENT_TIMESTAMP
+      WHERE id = @id
+    `)
+
+    this.ruleVenueIds = getActiveCity().venueRules.map((rule) => {
+      const { name, address } = splitVenueLocation(rule.location)
+      const slug = venueSlug(name)
+      const existing = select.get(slug) as
+        | { id: number; aliases: string | null }
+        | undefined
+      const row = {
+        slug,
+        name,
+        address,
+        city: rule.city,
+        latitude: rule.latitude,
+        longitude: rule.longitude,
+        aliases: JSON.stringify([
+          ...new Set([
+            rule.location,
+            ...(rule.aliases ?? []),
+            ...parseVenueAliases(existing?.aliases ?? null),
+          ]),
+        ]),
+      }
+      if (existing) {
+        update.run({ ...row, id: existing.id })
+        return existing.id
+      }
+      return Number(insert.run(row).lastInsertRowid)
+    })
+  }
+
+  /**
+   * venueKey of every venue name and alias → venue. Built (after syncing
+   * the rule venues) the first time an event is linked, then kept current
+   * as venues and aliases are added.
+   */
+  private venueIndex(): Map<string, { id: number; address: string | null }> {
+    if (this.venueIdsByKey) {
+      return this.venueIdsByKey
+    }
+    this.syncRuleVenues()
+    const rows = this.db
+      .prepare("SELECT id, name, address, aliases FROM venues ORDER BY id")
+      .all() as {
+      id: number
+      name: string
+      address: string | null
+      aliases: string | null
+    }[]
+    const index = new Map<string, { id: number; address: string | null }>()
+    for (const row of rows) {
+      for (const text of [row.name, ...parseVenueAliases(row.aliases)]) {
+        const key = venueKey(text)
+        if (key && !index.has(key)) {
+          index.set(key, { id: row.id, address: row.address })
+        }
+      }
+    }
+    this.venueIdsByKey = index
+    return index
+  }
+
+  /**
+   * Venue for an event: the venue rule its title or location matches (the
+   * same test enrichment uses), else a venue with that location as its name
+   * or an alias, else a new venue made from the location. Same-named venues
+   * are told apart by house number ("Main Library, 102 3rd St N" vs "Main
+   * Library, 2801 32nd Ave S"). Null when there is no location to go on.
+   */
+  private resolveVenueId(event: {
+    title: string
+    location: string | null
+    city: string | null
+    latitude: number | null
+    longitude: number | null
+  }): number | null {
+    const index = this.venueIndex()
+    const { location } = event
+
+    const rules = getActiveCity().venueRules
+    for (let i = 0; i < rules.length; i++) {
+      const locationMatches =
+        location != null && rules[i].titlePattern.test(location)
+      if (locationMatches || rules[i].titlePattern.test(event.title)) {
+        // A title-only match says nothing about how the source spells the
+        // venue ("Paradox Pokémon League" listed at a mall address).
+        if (locationMatches) {
+          this.addVenueAlias(this.ruleVenueIds[i], location)
+        }
+        return this.ruleVenueIds[i]
+      }
+    }
+
+    const key = location ? venueKey(location) : ""
+    const placeNames = [getActiveCity().displayName, event.city]
+    if (!location || !key || isGenericVenueKey(key, placeNames)) {
+      return null
+    }
+    const exact = index.get(key)
+    if (exact) {
+      this.fillVenueCoordinates(exact.id, event)
+      return exact.id
+    }
+
+    const { name, address } = splitVenueLocation(location)
+    const named = index.get(venueKey(name))
+    if (named) {
+      const knownNumber = addressNumber(named.address)
+      const incomingNumber = addressNumber(address)
+      if (!knownNumber || !incomingNumber || knownNumber === incomingNumber) {
+        this.addVenueAlias(named.id, location)
+        this.fillVenueCoordinates(named.id, event)
+        return named.id
+      }
+    }
+
+    const baseSlug = venueSlug(name)
+    const slugTaken = this.db.prepare("SELECT 1 FROM venues WHERE slug = ?")
+    let slug = baseSlug
+    for (let n = 2; slugTaken.get(slug) !== undefined; n++) {
+      slug = `${baseSlug}-${n}`
+    }
+    const id = Number(
+      this.db
+        .prepare(
+          `INSERT INTO venues (slug, name, address, city, latitude, longitude, aliases)
+           VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        )
+        .run(
+          slug,
+          name,
+          address,
+          event.city,
+          event.latitude,
+          event.longitude,
+          JSON.stringify([location]),
+        ).lastInsertRowid,
+    )
+    index.set(key, { id, address })
+    if (!index.has(venueKey(name))) {
+      index.set(venueKey(name), { id, address })
+    }
+    return id
+  }
+
+  /** Venues created from a location with no coordinates take the first event's. */
+  private fillVenueCoordinates(
+    venueId: number,
+    event: { latitude: number | null; longitude: number | null },
+  ): void {
+    if (event.latitude == null || event.longitude == null) {
+      return
+    }
+    this.db
+      .prepare(
+        `UPDATE venues SET latitude = ?, longitude = ?, updatedAt = CURRENT_TIMESTAMP
+         WHERE id = ? AND latitude IS NULL`,
+      )
+      .run(event.latitude, event.longitude, venueId)
+  }
+
+  /** Record a location spelling for a venue (no-op when already known). */
+  private addVenueAlias(venueId: number, location: string): void {
+    const index = this.venueIndex()
+    const key = venueKey(location)
+    if (!key || index.get(key)?.id === venueId) {
+      return
+    }
+    const row = this.db
+      .prepare("SELECT address, aliases FROM venues WHERE id = ?")
+      .get(venueId) as { address: string | null; aliases: string | null }
+    const aliases = parseVenueAliases(row.aliases)
+    this.db
+      .prepare(
+        "UPDATE venues SET aliases = ?, updatedAt = CURRENT_TIMESTAMP WHERE id = ?",
+      )
+      .run(JSON.stringify([...aliases, location]), venueId)
+    if (!index.has(key)) {
+      index.set(key, { id: venueId, address: row.address })
+    }
+  }
+
+  /**
+   * (Re)link every stored event to its venue — for existing rows after the
+   * venues migration, and after venue rules change (npm run reenrich).
+   * Returns the number of events whose venueId changed.
+   */
+  linkEventVenues(): number {
+    const rows = this.db
+      .prepare(
+        "SELECT eventId, title, location, city, latitude, longitude, venueId FROM events",
+      )
+      .all() as {
+      eventId: string
+      title: string
+      location: string | null
+      city: string | null
+      latitude: number | null
+      longitude: number | null
+      venueId: number | null
+    }[]
+    const update = this.db.prepare(
+      "UPDATE events SET venueId = ? WHERE eventId = ?",
+    )
+
+    let count = 0
+    this.db.transaction(() => {
+      for (const row of rows) {
+        const venueId = this.resolveVenueId(row)
+        if (venueId !== row.venueId) {
+          update.run(venueId, row.eventId)
+          count++
+        }
+      }
+    })()
+    return count
+  }
+
+  /**
+   * Venues with something upcoming and their display-row counts, busiest
+   * first. The venues table keeps every location ever seen, so the rest
+   * are left out; getVenue still answers for them (a regular's venue page
+   * should say "nothing scheduled", not 404).
+   */
+  getVenues(): VenueSummary[] {
+    return this.queryVenueSummaries("", [], "HAVING upcomingCount > 0")
+  }
+
+  getVenue(venueId: number): VenueSummary | null {
+    return this.queryVenueSummaries("WHERE v.id = ?", [venueId])[0] ?? null
+  }
+
+  private queryVenueSummaries(
+    whereClause: string,
+    params: unknown[],
+    havingClause: string = "",
+  ): VenueSummary[] {
+    const today = this.getCurrentDateInTimeZone(this.displayTimeZone)
+    const rows = this.db
+      .prepare(
+        `SELECT v.id, v.slug, v.name, v.address, v.city, v.latitude, v.longitude, v.aliases,
+                COUNT(d.id) AS upcomingCount
+         FROM venues v
+         LEFT JOIN display_events d ON d.venueId = v.id AND d.endDate >= ?
+         ${whereClause}
+         GROUP BY v.id
+         ${havingClause}
+         ORDER BY upcomingCount DESC, v.name COLLATE NOCASE ASC`,
+      )
+      .all(today, ...params) as (Omit<VenueSummary, "aliases"> & {
+      aliases: string
+    })[]
+    return rows.map((row) => ({
+      ...row,
+      aliases: parseVenueAliases(row.aliases),
+    }))
+  }
+
   /**
    * Re-apply all venue rules to every event whose title or location matches,
    * regardless of whether location data is already set. Use this after
@@ -1153,6 +2682,7 @@ export class EventDatabase {
     const updateStmt = this.db.prepare(`
       UPDATE events
       SET location = @location,
+          venueId = @venueId,
           city = @city,
           latitude = @latitude,
           longitude = @longitude,
@@ -1160,16 +2690,20 @@ export class EventDatabase {
       WHERE eventId = @eventId
     `)
 
+    this.venueIndex()
+    const rules = getActiveCity().venueRules
     let count = 0
     const transaction = this.db.transaction(() => {
       for (const row of allEvents) {
-        for (const rule of getActiveCity().venueRules) {
+        for (let i = 0; i < rules.length; i++) {
+          const rule = rules[i]
           if (
             rule.titlePattern.test(row.title) ||
             (row.location != null && rule.titlePattern.test(row.location))
           ) {
             updateStmt.run({
               location: rule.location,
+              venueId: this.ruleVenueIds[i],
               city: rule.city,
               latitude: rule.latitude,
               longitude: rule.longitude,
@@ -1187,20 +2721,22 @@ export class EventDatabase {
 
   /**
    * For events that match a known venue rule by title or location, ensure
-   * their location/city/coords match the rule. This both backfills missing
-   * data AND corrects wrong data from sources (e.g. outdated addresses).
+   * their location/venueId/city/coords match the rule. This both backfills
+   * missing data AND corrects wrong data from sources (e.g. outdated
+   * addresses).
    * Only writes when data actually differs from the rule.
    * Returns the number of rows updated.
    */
   enrichVenueLocations(): number {
     const allEvents = this.db
       .prepare(
-        "SELECT eventId, title, location, city, latitude, longitude FROM events",
+        "SELECT eventId, title, location, venueId, city, latitude, longitude FROM events",
       )
       .all() as {
         eventId: string
         title: string
         location: string | null
+        venueId: number | null
         city: string | null
         latitude: number | null
         longitude: number | null
@@ -1209,6 +2745,7 @@ export class EventDatabase {
     const updateStmt = this.db.prepare(`
       UPDATE events
       SET location = @location,
+          venueId = @venueId,
           city = @city,
           latitude = @latitude,
           longitude = @longitude,
@@ -1216,22 +2753,27 @@ export class EventDatabase {
       WHERE eventId = @eventId
     `)
 
+    this.venueIndex()
+    const rules = getActiveCity().venueRules
     let count = 0
     const transaction = this.db.transaction(() => {
       for (const row of allEvents) {
-        for (const rule of getActiveCity().venueRules) {
+        for (let i = 0; i < rules.length; i++) {
+          const rule = rules[i]
           if (
             rule.titlePattern.test(row.title) ||
             (row.location != null && rule.titlePattern.test(row.location))
           ) {
             if (
               row.location !== rule.location ||
+              row.venueId !== this.ruleVenueIds[i] ||
               row.city !== rule.city ||
               row.latitude !== rule.latitude ||
               row.longitude !== rule.longitude
             ) {
               updateStmt.run({
                 location: rule.location,
+                venueId: this.ruleVenueIds[i],
                 city: rule.city,
                 latitude: rule.latitude,
                 longitude: rule.longitude,
@@ -1248,6 +2790,55 @@ export class EventDatabase {
     return count
   }
 
+  /**
+   * Keyword category inference (title keywords; venue/description rules
+   * for events whose source categories map to nothing — see
+   * enrichment/categories). Runs after venue enrichment so rule-filled
+   * locations count. Stores the inferred taxonomy ids on the raw row; only
+   * writes when they changed. Returns the number of rows updated.
+   */
+  inferEventCategories(): number {
+    const taxonomy = getActiveCity().categoryTaxonomy
+    const rows = this.db
+      .prepare(
+        "SELECT eventId, title, location, description, categories, source, inferredCategories FROM events",
+      )
+      .all() as {
+      eventId: string
+      title: string
+      location: string | null
+      description: string | null
+      categories: string | null
+      source: string
+      inferredCategories: string | null
+    }[]
+    const update = this.db.prepare(
+      "UPDATE events SET inferredCategories = ? WHERE eventId = ?",
+    )
+
+    let count = 0
+    this.db.transaction(() => {
+      for (const row of rows) {
+        const inferred = serializeCategoryIds(
+          inferCategories(taxonomy, {
+            title: row.title,
+            location: row.location,
+            description: row.description,
+            sourceCategoryIds: mapSourceCategories(taxonomy, {
+              source: row.source,
+              rawCategories: this.extractCategoryNames(row.categories),
+            }),
+          }),
+        )
+        if (inferred !== row.inferredCategories) {
+          update.run(inferred, row.eventId)
+          count++
+        }
+      }
+    })()
+    return count
+  }
+
   close() {
     this.db.close()
   }
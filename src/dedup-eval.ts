@@ -0,0 +1,213 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs"
+import { dirname } from "path"
+import { getActiveCity } from "./cities"
+import { EventDatabase } from "./db/database"
+import {
+  evaluateGoldenSet,
+  GoldenPair,
+  GoldenSet,
+  mergeGoldenPairs,
+  PairResult,
+  toGoldenEvent,
+} from "./dedup/golden"
+import { resolveMatchTuning } from "./dedup/tuning"
+import { SOURCE_INFO } from "./fetchers/sources"
+
+const USAGE = `Usage:
+  npm run dedup:eval                       Score the golden set, report precision/recall
+  npm run dedup:eval -- --export           Add the DB's candidate pairs to the golden set
+Options:
+  --file <path>   Golden set (default dedup-golden/<city>.json)
+  --worst <n>     False positives/negatives listed per source pair (default 3)
+  --verified      Only evaluate pairs a human has checked`
+
+function parseArgs(argv: string[]) {
+  const options = {
+    exportPairs: false,
+    file: `dedup-golden/${getActiveCity().id}.json`,
+    worst: 3,
+    verifiedOnly: false,
+  }
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    if (arg === "--export") {
+      options.exportPairs = true
+    } else if (arg === "--verified") {
+      options.verifiedOnly = true
+    } else if (arg === "--file" || arg === "--worst") {
+      const next = argv[i + 1]
+      if (!next) {
+        throw new Error(`${arg} requires a value`)
+      }
+      if (arg === "--file") {
+        options.file = next
+      } else {
+        options.worst = Number(next)
+        if (!Number.isInteger(options.worst) || options.worst < 0) {
+          throw new Error("--worst must be a non-negative integer")
+        }
+      }
+      i++
+    } else {
+      throw new Error(`Unknown argument '${arg}'\n\n${USAGE}`)
+    }
+  }
+  return options
+}
+
+function readGoldenSet(file: string): GoldenSet | null {
+  if (!existsSync(file)) return null
+  return JSON.parse(readFileSync(file, "utf8")) as GoldenSet
+}
+
+/**
+ * Candidate pairs from the current DB: every scored match, unlabeled (the
+ * matcher's confidence would only grade it against itself), plus manual
+ * matches and eventId-pair overrides — a human's call, so labeled and
+ * verified. URL-keyed overrides reach the set through the manual matches
+ * they produced; URL splits leave no trace in event_matches and are skipped.
+ */
+function exportPairs(db: EventDatabase): GoldenPair[] {
+  const pairs: GoldenPair[] = []
+  const addPair = (
+    eventIdA: string,
+    eventIdB: string,
+    label: GoldenPair["label"],
+    verified: boolean,
+    note?: string,
+  ) => {
+    const a = db.getEvent(eventIdA)
+    const b = db.getEvent(eventIdB)
+    if (!a || !b) return
+    pairs.push({
+      label,
+      verified,
+      ...(note ? { note } : {}),
+      a: toGoldenEvent(a),
+      b: toGoldenEvent(b),
+    })
+  }
+
+  for (const match of db.getMatches()) {
+    const manual = match.matchType === "manual"
+    addPair(match.eventId1, match.eventId2, manual ? "duplicate" : null, manual)
+  }
+  for (const override of db.getMatchOverrides()) {
+    if (override.keyType !== "eventId") continue
+    addPair(
+      override.key1,
+      override.key2,
+      override.action === "merge" ? "duplicate" : "distinct",
+      true,
+      override.note ?? undefined,
+    )
+  }
+  return pairs
+}
+
+function formatRatio(value: number | null): string {
+  return value == null ? "  n/a" : `${(value * 100).toFixed(1)}%`.padStart(6)
+}
+
+function formatResult(result: PairResult): string {
+  const { a, b } = result.pair
+  return (
+    `      ${result.score.toFixed(2)}  "${a.title}" (${a.eventId}) vs "${b.title}" (${b.eventId}) on ${a.date}\n` +
+    `            ${result.reasons.join("; ")}`
+  )
+}
+
+function main() {
+  let options: ReturnType<typeof parseArgs>
+  try {
+    options = parseArgs(process.argv.slice(2))
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : error}`)
+    process.exitCode = 1
+    return
+  }
+
+  if (options.exportPairs) {
+    const db = new EventDatabase()
+    try {
+      const existing = readGoldenSet(options.file)
+      const { pairs, added } = mergeGoldenPairs(
+        existing?.pairs ?? [],
+        exportPairs(db),
+      )
+      const set: GoldenSet = { version: 1, city: getActiveCity().id, pairs }
+      mkdirSync(dirname(options.file), { recursive: true })
+      writeFileSync(options.file, JSON.stringify(set, null, 2) + "\n")
+      console.log(
+        `✓ Exported ${added} new pairs to ${options.file} (${pairs.length} total)`,
+      )
+      console.log(
+        '   Label the new pairs "duplicate" or "distinct" and set "verified": true.',
+      )
+    } catch (error) {
+      console.error("❌ Error:", error)
+      process.exitCode = 1
+    } finally {
+      db.close()
+    }
+    return
+  }
+
+  const set = readGoldenSet(options.file)
+  if (!set) {
+    console.error(
+      `❌ No golden set at ${options.file}. Create one with: npm run dedup:eval -- --export`,
+    )
+    process.exitCode = 1
+    return
+  }
+
+  const priorityBySource = new Map(
+    SOURCE_INFO.map((info) => [info.source, info.dedupPriority]),
+  )
+  const sports = new Set(
+    SOURCE_INFO.filter((info) => info.sports).map((info) => info.source),
+  )
+  const utcSources = new Set(
+    SOURCE_INFO.filter((info) => info.publishesUtc).map((info) => info.source),
+  )
+  const report = evaluateGoldenSet(
+    set,
+    {
+      dedupPriority: (source) => priorityBySource.get(source) ?? 0,
+      isSports: (source) => sports.has(source),
+      tuning: (sourceA, sourceB) =>
+        resolveMatchTuning(getActiveCity().matchTuning, sourceA, sourceB),
+      dayShift: { utcSources, timeZone: getActiveCity().timeZone },
+    },
+    { worst: options.worst, verifiedOnly: options.verifiedOnly },
+  )
+
+  console.log(
+    `\n📊 Dedup evaluation: ${report.pairs} pairs (${report.verified} verified, ${report.unlabeled} unlabeled skipped) from ${options.file}\n`,
+  )
+  console.log(
+    `   Overall   precision ${formatRatio(report.overall.precision)}   recall ${formatRatio(report.overall.recall)}   ` +
+      `(TP ${report.overall.truePositives}, FP ${report.overall.falsePositives}, FN ${report.overall.falseNegatives}, TN ${report.overall.trueNegatives})`,
+  )
+  console.log("─".repeat(80))
+
+  for (const sourcePair of report.bySourcePair) {
+    console.log(`\n   ${sourcePair.sourcePair}`)
+    console.log(
+      `      precision ${formatRatio(sourcePair.precision)}   recall ${formatRatio(sourcePair.recall)}   ` +
+        `(TP ${sourcePair.truePositives}, FP ${sourcePair.falsePositives}, FN ${sourcePair.falseNegatives}, TN ${sourcePair.trueNegatives})`,
+    )
+    if (sourcePair.worstFalsePositives.length) {
+      console.log("    ❌ False positives (merged, but distinct):")
+      sourcePair.worstFalsePositives.forEach((r) => console.log(formatResult(r)))
+    }
+    if (sourcePair.worstFalseNegatives.length) {
+      console.log("    ⚠️  False negatives (missed duplicates):")
+      sourcePair.worstFalseNegatives.forEach((r) => console.log(formatResult(r)))
+    }
+  }
+  console.log()
+}
+
+main()
@@ -1,5 +1,39 @@
 import { EventDatabase } from "./db/database"
-import { buildAllMatches, persistMatches } from "./fetchers/registry"
+import {
+  buildAllMatches,
+  MatchPassTiming,
+  persistMatches,
+} from "./fetchers/registry"
+
+function printTimings(timings: MatchPassTiming[], totalMs: number) {
+  const cross = timings.filter((t) => t.stats)
+  const sum = (passes: MatchPassTiming[]) =>
+    passes.reduce((ms, t) => ms + t.durationMs, 0)
+  const pairs = cross.reduce((n, t) => n + t.stats!.pairs, 0)
+  const scored = cross.reduce((n, t) => n + t.stats!.scored, 0)
+  const share = pairs ? ` (${((scored / pairs) * 100).toFixed(1)}%)` : ""
+
+  console.log(`⏱️  Matching took ${totalMs.toFixed(0)}ms`)
+  console.log(
+    `   Cross-source: ${sum(cross).toFixed(0)}ms over ${cross.length} source pairs, ` +
+      `scored ${scored} of ${pairs} event pairs${share}`,
+  )
+  console.log(
+    `   Same-source:  ${sum(timings.filter((t) => !t.stats)).toFixed(0)}ms`,
+  )
+  console.log(`   Slowest passes:`)
+  for (const timing of [...timings]
+    .sort((a, b) => b.durationMs - a.durationMs)
+    .slice(0, 5)) {
+    const detail = timing.stats
+      ? ` — scored ${timing.stats.scored} of ${timing.stats.pairs}`
+      : ""
+    console.log(
+      `      ${timing.durationMs.toFixed(1).padStart(7)}ms  ${timing.label}${detail}`,
+    )
+  }
+  console.log()
+}
 
 /**
  * Rebuild dedup matches + display_events from the events already in the DB,
@@ -11,7 +45,10 @@ async function main() {
   const db = new EventDatabase()
 
   try {
-    const matches = buildAllMatches(db)
+    const timings: MatchPassTiming[] = []
+    const startedAt = performance.now()
+    const matches = buildAllMatches(db, timings)
+    printTimings(timings, performance.now() - startedAt)
     const byConfidence = persistMatches(db, matches)
 
     console.log(`✓ Found ${matches.length} matches`)
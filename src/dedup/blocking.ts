@@ -0,0 +1,136 @@
+/**
+ * Candidate blocking for cross-source matching. Scoring every event against
+ * every other is quadratic with Levenshtein inside, so events are filed
+ * under (date, key) blocks and only pairs sharing a block are scored. Keys
+ * are the title's character trigrams and the canonical venue, and a date
+ * with only a handful of events on the other side is compared in full.
+ *
+ * Trigrams survive a typo anywhere in a word longer than four letters
+ * ("Karaoke" / "Kareoke" share "kar" and "oke"), plurals and run-together
+ * words ("ArtBingo" / "Art Bingo"). Shorter words can lose every trigram to
+ * one typo ("Yoga" / "Yooa"); the venue key and the small-date fallback
+ * catch those, and keep the differently-titled same-venue pairs the review
+ * queue shows as low confidence. Events with no canonical venue (no or a
+ * generic location) share one venue block per date.
+ *
+ * This is not full parity with scoring every pair: two events on a busy
+ * date with no title trigram in common and different venueIds are never
+ * compared, even when their location strings overlap ("Island Park" /
+ * "Island Park Shelter") and the pair would score medium.
+ */
+import { StoredEvent } from "../types/event"
+import { tokenize } from "./normalize"
+
+const KEY_GRAM_LENGTH = 3
+
+/**
+ * A date with at most this many events on the indexed side is compared
+ * against in full, without blocking.
+ */
+const SMALL_DATE_SIZE = 8
+
+/** Block for titles with no usable tokens; shared with every title that day. */
+const ANY_TITLE = "*"
+
+/** Venue block for events with no canonical venue */
+const NO_VENUE = "venue:?"
+
+export interface BlockingStats {
+  /**
+   * Pairs the unblocked comparison would consider: every pair on the same
+   * date or adjacent ones (the dates alignDates can line up)
+   */
+  pairs: number
+  /** Pairs that shared a block, lined up on one date and were scored */
+  scored: number
+}
+
+export function titleBlockKeys(title: string): string[] {
+  const tokens = tokenize(title)
+  if (!tokens.length) return [ANY_TITLE]
+  const keys = new Set<string>()
+  for (const token of tokens) {
+    if (token.length <= KEY_GRAM_LENGTH) keys.add(token)
+    for (let i = 0; i + KEY_GRAM_LENGTH <= token.length; i++) {
+      keys.add(token.slice(i, i + KEY_GRAM_LENGTH))
+    }
+  }
+  // Trigrams that span a word break, for run-together words
+  const joined = tokens.join("")
+  for (let i = 0; i + KEY_GRAM_LENGTH <= joined.length; i++) {
+    keys.add(joined.slice(i, i + KEY_GRAM_LENGTH))
+  }
+  return [...keys]
+}
+
+function blockKeys(event: StoredEvent): string[] {
+  const keys = titleBlockKeys(event.title)
+  keys.push(event.venueId != null ? `venue:${event.venueId}` : NO_VENUE)
+  return keys
+}
+
+function shiftDate(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number)
+  return new Date(Date.UTC(year, month - 1, day + days))
+    .toISOString()
+    .slice(0, 10)
+}
+
+export class BlockingIndex {
+  private readonly blocks = new Map<string, number[]>()
+  private readonly byDate = new Map<string, number[]>()
+
+  /**
+   * @param dayWindow How many days either side of an event's date its
+   *   candidates may fall (1 = the day before through the day after)
+   */
+  constructor(
+    private readonly events: StoredEvent[],
+    private readonly dayWindow = 1,
+  ) {
+    events.forEach((event, position) => {
+      const sameDate = this.byDate.get(event.date) || []
+      sameDate.push(position)
+      this.byDate.set(event.date, sameDate)
+      for (const key of blockKeys(event)) {
+        const blockKey = `${event.date}|${key}`
+        const block = this.blocks.get(blockKey) || []
+        block.push(position)
+        this.blocks.set(blockKey, block)
+      }
+    })
+  }
+
+  /**
+   * Indexed events sharing a block with `event`, in their original order
+   * (so match output doesn't depend on block iteration order).
+   */
+  candidates(event: StoredEvent): StoredEvent[] {
+    const keys = blockKeys(event)
+    const untitled = keys[0] === ANY_TITLE
+    if (!untitled) keys.push(ANY_TITLE)
+
+    const positions = new Set<number>()
+    for (let offset = -this.dayWindow; offset <= this.dayWindow; offset++) {
+      const date = shiftDate(event.date, offset)
+      const sameDate = this.byDate.get(date)
+      // No title to block on, or too few events to bother: every event
+      // that day is a candidate
+      const blocks =
+        untitled || (sameDate && sameDate.length <= SMALL_DATE_SIZE)
+          ? [sameDate]
+          : keys.map((key) => this.blocks.get(`${date}|${key}`))
+      for (const block of blocks) block?.forEach((p) => positions.add(p))
+    }
+    return [...positions].sort((a, b) => a - b).map((p) => this.events[p])
+  }
+
+  /** Indexed events within the day window of `event`, blocked or not. */
+  windowSize(event: StoredEvent): number {
+    let size = 0
+    for (let offset = -this.dayWindow; offset <= this.dayWindow; offset++) {
+      size += this.byDate.get(shiftDate(event.date, offset))?.length ?? 0
+    }
+    return size
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * Groups pairwise duplicate matches into clusters, so an event listed on
+ * four sources becomes one cluster with one survivor rather than a web of
+ * pairwise drops (which could drop the wrong row or leave two standing).
+ */
+
+export interface ClusterEvent {
+  eventId: string
+  source: string
+  /** Row id in events; breaks survivor ties within one source (newer wins) */
+  id: number
+}
+
+export interface ClusterMatch {
+  eventId1: string
+  eventId2: string
+  score: number
+}
+
+export interface DuplicateCluster {
+  /** The member shown on the site */
+  survivor: ClusterEvent
+  /** Every member, survivor first, then by descending priority */
+  members: ClusterEvent[]
+}
+
+class UnionFind {
+  private readonly parent = new Map<string, string>()
+
+  find(key: string): string {
+    let root = key
+    while (this.parent.has(root) && this.parent.get(root) !== root) {
+      root = this.parent.get(root)!
+    }
+    // Path compression
+    let node = key
+    while (node !== root) {
+      const next = this.parent.get(node)!
+      this.parent.set(node, root)
+      node = next
+    }
+    return root
+  }
+
+  union(a: string, b: string): string {
+    const rootA = this.find(a)
+    const rootB = this.find(b)
+    if (rootA !== rootB) this.parent.set(rootB, rootA)
+    return rootA
+  }
+}
+
+/**
+ * Union-find over the matches, strongest first. A cross-source match never
+ * joins two clusters that already hold the same source: that source's
+ * listing was already claimed by a stronger match, and chaining through a
+ * weak link is how two different shows that night end up merged.
+ * Same-source matches (reposts) always join. No match ever joins two
+ * clusters holding either side of a split override (`splits`), so A~C and
+ * C~B can't put a split A and B back together. The survivor is the member
+ * from the highest-dedupPriority source; within one source, the newest row
+ * — the same sides the pairwise matches keep.
+ */
+export function clusterMatches(
+  matches: ClusterMatch[],
+  events: Map<string, ClusterEvent>,
+  dedupPriority: (source: string) => number,
+  splits: [string, string][] = [],
+): DuplicateCluster[] {
+  const uf = new UnionFind()
+  const sourcesByRoot = new Map<string, Set<string>>()
+  const sourcesOf = (root: string, eventId: string) =>
+    sourcesByRoot.get(root) ?? new Set([events.get(eventId)!.source])
+
+  const splitFrom = new Map<string, Set<string>>()
+  for (const [a, b] of splits) {
+    splitFrom.set(a, (splitFrom.get(a) ?? new Set()).add(b))
+    splitFrom.set(b, (splitFrom.get(b) ?? new Set()).add(a))
+  }
+  // Each cluster's members, and every event split from one of them
+  const membersByRoot = new Map<string, Set<string>>()
+  const membersOf = (root: string, eventId: string) =>
+    membersByRoot.get(root) ?? new Set([eventId])
+  const apartByRoot = new Map<string, Set<string>>()
+  const apartOf = (root: string, eventId: string) =>
+    apartByRoot.get(root) ?? splitFrom.get(eventId) ?? new Set<string>()
+
+  const ordered = matches
+    .filter((m) => events.has(m.eventId1) && events.has(m.eventId2))
+    .sort((a, b) => b.score - a.score)
+  for (const match of ordered) {
+    const rootA = uf.find(match.eventId1)
+    const rootB = uf.find(match.eventId2)
+    if (rootA === rootB) continue
+
+    const sourcesA = sourcesOf(rootA, match.eventId1)
+    const sourcesB = sourcesOf(rootB, match.eventId2)
+    const crossSource =
+      events.get(match.eventId1)!.source !== events.get(match.eventId2)!.source
+    if (crossSource && [...sourcesB].some((s) => sourcesA.has(s))) continue
+
+    const membersA = membersOf(rootA, match.eventId1)
+    const membersB = membersOf(rootB, match.eventId2)
+    const apartA = apartOf(rootA, match.eventId1)
+    const apartB = apartOf(rootB, match.eventId2)
+    if ([...membersB].some((eventId) => apartA.has(eventId))) continue
+
+    const root = uf.union(rootA, rootB)
+    for (const byRoot of [sourcesByRoot, membersByRoot, apartByRoot]) {
+      byRoot.delete(rootA)
+      byRoot.delete(rootB)
+    }
+    sourcesByRoot.set(root, new Set([...sourcesA, ...sourcesB]))
+    membersByRoot.set(root, new Set([...membersA, ...membersB]))
+    apartByRoot.set(root, new Set([...apartA, ...apartB]))
+  }
+
+  const eventsByRoot = new Map<string, ClusterEvent[]>()
+  const seen = new Set<string>()
+  for (const match of ordered) {
+    for (const eventId of [match.eventId1, match.eventId2]) {
+      if (seen.has(eventId)) continue
+      seen.add(eventId)
+      const root = uf.find(eventId)
+      const members = eventsByRoot.get(root) || []
+      members.push(events.get(eventId)!)
+      eventsByRoot.set(root, members)
+    }
+  }
+
+  const clusters: DuplicateCluster[] = []
+  for (const members of eventsByRoot.values()) {
+    if (members.length < 2) continue
+    members.sort(
+      (a, b) =>
+        dedupPriority(b.source) - dedupPriority(a.source) || b.id - a.id,
+    )
+    clusters.push({ survivor: members[0], members })
+  }
+  return clusters
+}
@@ -0,0 +1,262 @@
+import { StoredEvent } from "../types/event"
+import {
+  DayShiftOptions,
+  findMatches,
+  findSelfMatches,
+  MatchScore,
+  scoreMatch,
+} from "./matcher"
+import { MatchTuning } from "./tuning"
+
+/**
+ * Labeled event pairs for tuning the matcher (`npm run dedup:eval`). Events
+ * are snapshotted into the file — the DB forgets past events — with just
+ * the fields the matcher reads.
+ */
+export interface GoldenSet {
+  version: 1
+  /** CityConfig.id the pairs were exported from */
+  city: string
+  pairs: GoldenPair[]
+}
+
+export type GoldenLabel = "duplicate" | "distinct"
+
+export interface GoldenPair {
+  /**
+   * null until a human labels the pair: scored matches export unlabeled, so
+   * the matcher is never graded against its own guesses. Evaluation skips
+   * unlabeled pairs.
+   */
+  label: GoldenLabel | null
+  /**
+   * true once a human has checked the label. Match overrides and manual
+   * matches export as verified.
+   */
+  verified: boolean
+  note?: string
+  a: GoldenEvent
+  b: GoldenEvent
+}
+
+export type GoldenEvent = Pick<
+  StoredEvent,
+  | "id"
+  | "eventId"
+  | "source"
+  | "title"
+  | "url"
+  | "location"
+  | "date"
+  | "startTime"
+  | "latitude"
+  | "longitude"
+> & { venueId: number | null }
+
+export function toGoldenEvent(event: StoredEvent): GoldenEvent {
+  return {
+    id: event.id,
+    eventId: event.eventId,
+    source: event.source,
+    title: event.title,
+    url: event.url,
+    location: event.location,
+    date: event.date,
+    startTime: event.startTime,
+    latitude: event.latitude,
+    longitude: event.longitude,
+    venueId: event.venueId ?? null,
+  }
+}
+
+/** Order-independent identity of a pair, for merging exports. */
+export function goldenPairKey(pair: Pick<GoldenPair, "a" | "b">): string {
+  const [x, y] = [pair.a.eventId, pair.b.eventId].sort()
+  return `${x}|${y}`
+}
+
+/**
+ * Add newly exported pairs to an existing set. Existing pairs win, so
+ * hand-edited labels and notes survive a re-export; an unverified pair is
+ * replaced when the new export has a verified label for it.
+ */
+export function mergeGoldenPairs(
+  existing: GoldenPair[],
+  exported: GoldenPair[],
+): { pairs: GoldenPair[]; added: number } {
+  const byKey = new Map(existing.map((pair) => [goldenPairKey(pair), pair]))
+  let added = 0
+  for (const pair of exported) {
+    const key = goldenPairKey(pair)
+    const current = byKey.get(key)
+    if (!current) added++
+    if (!current || (!current.verified && pair.verified)) {
+      byKey.set(key, pair)
+    }
+  }
+  return { pairs: [...byKey.values()], added }
+}
+
+export interface EvalSourceInfo {
+  dedupPriority: (source: string) => number
+  isSports: (source: string) => boolean
+  /** Effective tuning for a source pair (the same source twice for reposts) */
+  tuning: (sourceA: string, sourceB: string) => MatchTuning
+  /** UTC-publishing sources and the city timezone, as buildAllMatches uses */
+  dayShift?: DayShiftOptions
+}
+
+export interface PairResult {
+  pair: GoldenPair
+  predicted: GoldenLabel
+  /** The matcher's score for the pair (scoreMatch, or 1 for a URL repost) */
+  score: number
+  reasons: string[]
+}
+
+export interface SourcePairReport {
+  /** "sourceA ↔ sourceB", sources sorted */
+  sourcePair: string
+  truePositives: number
+  falsePositives: number
+  falseNegatives: number
+  trueNegatives: number
+  precision: number | null
+  recall: number | null
+  /** Distinct pairs predicted duplicate, highest score first */
+  worstFalsePositives: PairResult[]
+  /** Duplicate pairs predicted distinct, lowest score first */
+  worstFalseNegatives: PairResult[]
+}
+
+export interface GoldenEvalReport {
+  pairs: number
+  verified: number
+  /** Pairs in the set with no label yet, left out of every count */
+  unlabeled: number
+  overall: Omit<SourcePairReport, "sourcePair" | "worstFalsePositives" | "worstFalseNegatives">
+  bySourcePair: SourcePairReport[]
+}
+
+/** A StoredEvent around the snapshot; fields the matcher ignores stay empty. */
+function toStoredEvent(event: GoldenEvent): StoredEvent {
+  return {
+    ...event,
+    endTime: null,
+    allDay: false,
+    startDate: event.date,
+    endDate: event.date,
+    city: null,
+    imageUrl: null,
+    description: null,
+    descriptionHtml: null,
+    priceType: null,
+    priceMin: null,
+    priceMax: null,
+    ticketUrl: null,
+    audience: null,
+    categories: "[]",
+    createdAt: "",
+    updatedAt: "",
+  }
+}
+
+/**
+ * What the pipeline would decide for one pair: the same calls
+ * buildAllMatches makes (findMatches with the lower-priority source first,
+ * findSelfMatches within a source, sports never cross-matched), counting
+ * high/medium as a duplicate like the display rebuild does.
+ */
+export function predictPair(
+  pair: GoldenPair,
+  info: EvalSourceInfo,
+): Omit<PairResult, "pair"> {
+  const a = toStoredEvent(pair.a)
+  const b = toStoredEvent(pair.b)
+
+  const tuning = info.tuning(a.source, b.source)
+  let found: MatchScore | undefined
+  if (a.source === b.source) {
+    found = findSelfMatches([a, b], {
+      urlOnly: info.isSports(a.source),
+      tuning,
+    })[0]
+  } else if (!info.isSports(a.source) && !info.isSports(b.source)) {
+    const [lower, higher] =
+      info.dedupPriority(a.source) <= info.dedupPriority(b.source)
+        ? [a, b]
+        : [b, a]
+    found = findMatches([lower], [higher], tuning, info.dayShift)[0]
+  }
+
+  const scored = found ?? scoreMatch(a, b, tuning)
+  return {
+    predicted:
+      found && found.confidence !== "low" ? "duplicate" : "distinct",
+    score: scored.totalScore,
+    reasons: scored.reasons,
+  }
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator === 0 ? null : numerator / denominator
+}
+
+export function evaluateGoldenSet(
+  set: GoldenSet,
+  info: EvalSourceInfo,
+  options: { worst?: number; verifiedOnly?: boolean } = {},
+): GoldenEvalReport {
+  const { worst = 3, verifiedOnly = false } = options
+  const pairs = set.pairs.filter(
+    (p) => p.label !== null && (!verifiedOnly || p.verified),
+  )
+
+  const bySourcePair = new Map<string, PairResult[]>()
+  for (const pair of pairs) {
+    const key = [pair.a.source, pair.b.source].sort().join(" ↔ ")
+    const results = bySourcePair.get(key) || []
+    results.push({ pair, ...predictPair(pair, info) })
+    bySourcePair.set(key, results)
+  }
+
+  const tally = (results: PairResult[]) => {
+    const count = (label: GoldenLabel, predicted: GoldenLabel) =>
+      results.filter((r) => r.pair.label === label && r.predicted === predicted)
+        .length
+    const truePositives = count("duplicate", "duplicate")
+    const falsePositives = count("distinct", "duplicate")
+    const falseNegatives = count("duplicate", "distinct")
+    return {
+      truePositives,
+      falsePositives,
+      falseNegatives,
+      trueNegatives: count("distinct", "distinct"),
+      precision: ratio(truePositives, truePositives + falsePositives),
+      recall: ratio(truePositives, truePositives + falseNegatives),
+    }
+  }
+
+  const reports: SourcePairReport[] = [...bySourcePair.entries()]
+    .map(([sourcePair, results]) => ({
+      sourcePair,
+      ...tally(results),
+      worstFalsePositives: results
+        .filter((r) => r.pair.label === "distinct" && r.predicted === "duplicate")
+        .sort((x, y) => y.score - x.score)
+        .slice(0, worst),
+      worstFalseNegatives: results
+        .filter((r) => r.pair.label === "duplicate" && r.predicted === "distinct")
+        .sort((x, y) => x.score - y.score)
+        .slice(0, worst),
+    }))
+    .sort((x, y) => x.sourcePair.localeCompare(y.sourcePair))
+
+  return {
+    pairs: pairs.length,
+    verified: pairs.filter((p) => p.verified).length,
+    unlabeled: set.pairs.filter((p) => p.label === null).length,
+    overall: tally([...bySourcePair.values()].flat()),
+    bySourcePair: reports,
+  }
+}
@@ -6,6 +6,9 @@ import {
   geoDistance,
   normalizeText,
 } from './normalize';
+import { utcInstantToLocal } from '../fetchers/shared';
+import { BlockingIndex, BlockingStats } from './blocking';
+import { DEFAULT_MATCH_TUNING, MatchTuning } from './tuning';
 
 export interface MatchScore {
   eventId1: string;
@@ -17,22 +20,10 @@ export interface MatchScore {
   totalScore: number;
   confidence: 'high' | 'medium' | 'low';
   reasons: string[];
+  /** 'manual' when a match override forced it (default 'auto') */
+  matchType?: 'auto' | 'manual';
 }
 
-interface MatchWeights {
-  title: number;
-  venue: number;
-  time: number;
-  geo: number;
-}
-
-const DEFAULT_WEIGHTS: MatchWeights = {
-  title: 0.5,
-  venue: 0.25,
-  time: 0.15,
-  geo: 0.1,
-};
-
 /**
  * Calculate title similarity score (0-1)
  */
@@ -91,9 +82,15 @@ function scoreVenues(venue1: string | null, venue2: string | null): { score: num
 }
 
 /**
- * Calculate time match score (0 or 1)
+ * Calculate time match score (0 or 1). dayOffset is how many days after
+ * time1's date time2's falls, so 23:50 and 00:10 the next day are 20
+ * minutes apart.
  */
-function scoreTimes(time1: string | null, time2: string | null): { score: number; reason: string } {
+function scoreTimes(
+  time1: string | null,
+  time2: string | null,
+  dayOffset: number = 0
+): { score: number; reason: string } {
   if (!time1 || !time2) {
     return { score: 0.5, reason: 'time unknown' };  // neutral if missing
   }
@@ -102,7 +99,7 @@ function scoreTimes(time1: string | null, time2: string | null): { score: number
   const t1 = time1.substring(0, 5);
   const t2 = time2.substring(0, 5);
 
-  if (t1 === t2) {
+  if (t1 === t2 && dayOffset === 0) {
     return { score: 1.0, reason: 'exact time match' };
   }
 
@@ -110,7 +107,7 @@ function scoreTimes(time1: string | null, time2: string | null): { score: number
   const [h1, m1] = t1.split(':').map(Number);
   const [h2, m2] = t2.split(':').map(Number);
   const mins1 = h1 * 60 + m1;
-  const mins2 = h2 * 60 + m2;
+  const mins2 = h2 * 60 + m2 + dayOffset * 1440;
   const diff = Math.abs(mins1 - mins2);
 
   if (diff <= 30) {
@@ -152,7 +149,7 @@ function scoreGeo(
 export function scoreMatch(
   event1: StoredEvent,
   event2: StoredEvent,
-  weights: MatchWeights = DEFAULT_WEIGHTS
+  tuning: MatchTuning = DEFAULT_MATCH_TUNING
 ): MatchScore {
   const reasons: string[] = [];
 
@@ -160,12 +157,21 @@ export function scoreMatch(
   const titleResult = scoreTitles(event1.title, event2.title);
   reasons.push(`Title: ${titleResult.reason}`);
 
-  // Venue score
-  const venueResult = scoreVenues(event1.location, event2.location);
+  // Venue score: a shared canonical venue settles it regardless of how
+  // each source spells the location
+  const venueResult =
+    event1.venueId != null && event1.venueId === event2.venueId
+      ? { score: 1.0, reason: 'same venue' }
+      : scoreVenues(event1.location, event2.location);
   reasons.push(`Venue: ${venueResult.reason}`);
 
-  // Time score
-  const timeResult = scoreTimes(event1.startTime, event2.startTime);
+  // Time score, across midnight for listings on adjacent dates
+  const dayOffset = daysBetween(event1.date, event2.date);
+  const timeResult = scoreTimes(
+    event1.startTime,
+    event2.startTime,
+    Math.abs(dayOffset) === 1 ? dayOffset : 0
+  );
   reasons.push(`Time: ${timeResult.reason}`);
 
   // Geo score
@@ -176,6 +182,7 @@ export function scoreMatch(
   reasons.push(`Geo: ${geoResult.reason}`);
 
   // Weighted total
+  const { weights, confidence: cutoffs } = tuning;
   const totalScore =
     titleResult.score * weights.title +
     venueResult.score * weights.venue +
@@ -184,9 +191,15 @@ export function scoreMatch(
 
   // Determine confidence level
   let confidence: 'high' | 'medium' | 'low';
-  if (totalScore >= 0.85 && titleResult.score >= 0.8) {
+  if (
+    totalScore >= cutoffs.high.total &&
+    titleResult.score >= cutoffs.high.title
+  ) {
     confidence = 'high';
-  } else if (totalScore >= 0.7 && titleResult.score >= 0.6) {
+  } else if (
+    totalScore >= cutoffs.medium.total &&
+    titleResult.score >= cutoffs.medium.title
+  ) {
     confidence = 'medium';
   } else {
     confidence = 'low';
@@ -214,7 +227,7 @@ export function scoreMatch(
  * with a fresh upstream id, so exact-URL identity is still the most
  * reliable same-source duplicate signal.
  */
-function normalizeUrl(rawUrl: string): string {
+export function normalizeUrl(rawUrl: string): string {
   try {
     const url = new URL(rawUrl)
     const path = url.pathname.replace(/\/+$/, '')
@@ -231,8 +244,107 @@ function timeToMinutes(time: string): number | null {
   return Number(match[1]) * 60 + Number(match[2])
 }
 
+function dayNumber(date: string): number {
+  return (
+    Date.UTC(+date.slice(0, 4), +date.slice(5, 7) - 1, +date.slice(8, 10)) /
+    86_400_000
+  )
+}
+
+/** Whole days from date1 to date2 ("YYYY-MM-DD"). */
+function daysBetween(date1: string, date2: string): number {
+  return dayNumber(date2) - dayNumber(date1)
+}
+
+function addDays(date: string, days: number): string {
+  return new Date((dayNumber(date) + days) * 86_400_000)
+    .toISOString()
+    .slice(0, 10)
+}
+
+/**
+ * Minutes between two listings' start instants (date + start time), or
+ * null when either start time is missing or unparseable.
+ */
+function startGapMinutes(a: StoredEvent, b: StoredEvent): number | null {
+  const minutesA = a.startTime ? timeToMinutes(a.startTime) : null
+  const minutesB = b.startTime ? timeToMinutes(b.startTime) : null
+  if (minutesA === null || minutesB === null) return null
+  return Math.abs(daysBetween(a.date, b.date) * 1440 + minutesB - minutesA)
+}
+
+/**
+ * A listing from a source that publishes UTC instants, moved to the city's
+ * local date and time. Without a start time there's no instant to convert.
+ */
+function toLocalListing(event: StoredEvent, timeZone: string): StoredEvent {
+  if (!event.startTime) return event
+  const at = new Date(`${event.date}T${event.startTime.substring(0, 5)}:00Z`)
+  if (Number.isNaN(at.getTime())) return event
+  const local = utcInstantToLocal(at, timeZone)
+  return { ...event, date: local.date, startTime: local.time }
+}
+
+export interface DayShiftOptions {
+  /** Sources known to publish UTC dates/times (SourceInfo.publishesUtc) */
+  utcSources?: ReadonlySet<string>
+  /** The city's IANA timezone, for converting utcSources' listings */
+  timeZone?: string
+}
+
+interface AlignedPair {
+  event1: StoredEvent
+  event2: StoredEvent
+  /** Why listings on different dates were compared; null when same-day */
+  dayShift: string | null
+}
+
+/**
+ * Put a candidate pair on a common date, or null if it can't be the same
+ * event: UTC-published listings are moved to local time first, and
+ * listings on adjacent dates are only compared when their start times are
+ * within maxGapMinutes of each other across midnight.
+ */
+function alignDates(
+  event1: StoredEvent,
+  event2: StoredEvent,
+  maxGapMinutes: number,
+  options: DayShiftOptions = {}
+): AlignedPair | null {
+  const { utcSources, timeZone } = options
+  const toLocal = (event: StoredEvent) =>
+    timeZone && utcSources?.has(event.source)
+      ? toLocalListing(event, timeZone)
+      : event
+  const local1 = toLocal(event1)
+  const local2 = toLocal(event2)
+
+  if (local1.date === local2.date) {
+    const utcSource = [event1, event2].find((e) => utcSources?.has(e.source))
+    return {
+      event1: local1,
+      event2: local2,
+      dayShift:
+        event1.date === event2.date
+          ? null
+          : `off-by-one-day (${utcSource?.source} publishes UTC)`,
+    }
+  }
+  if (Math.abs(daysBetween(local1.date, local2.date)) !== 1) return null
+
+  const gap = startGapMinutes(local1, local2)
+  if (gap === null || gap > maxGapMinutes) return null
+  return {
+    event1: local1,
+    event2: local2,
+    dayShift: `off-by-one-day (starts ${gap} min apart across midnight)`,
+  }
+}
+
 export interface SelfMatchOptions {
+  /** Defaults to tuning.selfMinScore */
   minScore?: number
+  tuning?: MatchTuning
   /**
    * Only match on identical URLs, skipping fuzzy scoring entirely. Used for
    * sports schedules where upstream ids are reliable and near-identical
@@ -257,7 +369,8 @@ export function findSelfMatches(
   events: StoredEvent[],
   options: SelfMatchOptions = {}
 ): MatchScore[] {
-  const { minScore = 0.85, urlOnly = false } = options
+  const { tuning = DEFAULT_MATCH_TUNING, urlOnly = false } = options
+  const minScore = options.minScore ?? tuning.selfMinScore
 
   const byDate = new Map<string, StoredEvent[]>()
   for (const event of events) {
@@ -267,92 +380,112 @@ export function findSelfMatches(
   }
 
   const matches: MatchScore[] = []
+  const comparePair = (a: StoredEvent, b: StoredEvent) => {
+    if (a.eventId === b.eventId) return
+
+    const [older, newer] = a.id < b.id ? [a, b] : [b, a]
+    const gap = startGapMinutes(older, newer)
+
+    if (older.date !== newer.date) {
+      // A repost that moved across midnight (12:30 AM listed on the night
+      // before): only with both start times known and close
+      if (urlOnly || gap === null || gap > 30) return
+    } else if (
+      older.url &&
+      newer.url &&
+      normalizeUrl(older.url) === normalizeUrl(newer.url)
+    ) {
+      // Identical URL on the same date is a duplicate regardless of how
+      // the titles drifted — the upstream id churned but the slug didn't.
+      matches.push({
+        eventId1: older.eventId,
+        eventId2: newer.eventId,
+        titleScore: 1,
+        venueScore: 1,
+        timeScore: 1,
+        geoScore: 1,
+        totalScore: 1,
+        confidence: 'high',
+        reasons: ['identical url (same-source repost)'],
+      })
+      return
+    }
+
+    if (urlOnly) return
+
+    // Distinct start times >30 min apart mean distinct events (back-to-
+    // back sessions, recurring slots), never a repost — skip before
+    // scoring so near-identical titles can't merge them.
+    if (gap !== null && gap > 30) return
+
+    const score = scoreMatch(older, newer, tuning)
+    if (older.date !== newer.date) {
+      score.reasons.push(
+        `Date: off-by-one-day (starts ${gap} min apart across midnight)`
+      )
+    }
+
+    if (score.totalScore >= minScore) {
+      matches.push(score)
+    }
+  }
+
   for (const dayEvents of byDate.values()) {
     for (let i = 0; i < dayEvents.length; i++) {
       for (let j = i + 1; j < dayEvents.length; j++) {
-        const a = dayEvents[i]
-        const b = dayEvents[j]
-        if (a.eventId === b.eventId) continue
-
-        const [older, newer] = a.id < b.id ? [a, b] : [b, a]
-
-        // Identical URL on the same date is a duplicate regardless of how
-        // the titles drifted — the upstream id churned but the slug didn't.
-        if (
-          older.url &&
-          newer.url &&
-          normalizeUrl(older.url) === normalizeUrl(newer.url)
-        ) {
-          matches.push({
-            eventId1: older.eventId,
-            eventId2: newer.eventId,
-            titleScore: 1,
-            venueScore: 1,
-            timeScore: 1,
-            geoScore: 1,
-            totalScore: 1,
-            confidence: 'high',
-            reasons: ['identical url (same-source repost)'],
-          })
-          continue
-        }
-
-        if (urlOnly) continue
-
-        // Distinct start times >30 min apart mean distinct events (back-to-
-        // back sessions, recurring slots), never a repost — skip before
-        // scoring so near-identical titles can't merge them.
-        if (older.startTime && newer.startTime) {
-          const minutes1 = timeToMinutes(older.startTime)
-          const minutes2 = timeToMinutes(newer.startTime)
-          if (
-            minutes1 !== null &&
-            minutes2 !== null &&
-            Math.abs(minutes1 - minutes2) > 30
-          ) {
-            continue
-          }
-        }
-
-        const score = scoreMatch(older, newer)
-
-        if (score.totalScore >= minScore) {
-          matches.push(score)
-        }
+        comparePair(dayEvents[i], dayEvents[j])
       }
     }
   }
+  for (const [date, dayEvents] of byDate) {
+    const nextDayEvents = byDate.get(addDays(date, 1)) || []
+    for (const a of dayEvents) {
+      for (const b of nextDayEvents) comparePair(a, b)
+    }
+  }
 
   matches.sort((a, b) => b.totalScore - a.totalScore)
   return matches
 }
 
+export interface FindMatchesOptions extends DayShiftOptions {
+  /** Counts how many pairs blocking let through */
+  stats?: BlockingStats;
+}
+
 /**
- * Find all potential matches between two sets of events
+ * Find all potential matches between two sets of events. Only pairs sharing
+ * a blocking-index block (date ±1 day + a title trigram or the venue, or
+ * any pair on a date with few events) are considered, and
+ * adjacent-day pairs only when alignDates puts them on one date; those get
+ * an "off-by-one-day" reason.
  */
 export function findMatches(
   source1Events: StoredEvent[],
   source2Events: StoredEvent[],
-  minScore: number = 0.7
+  tuning: MatchTuning = DEFAULT_MATCH_TUNING,
+  options: FindMatchesOptions = {}
 ): MatchScore[] {
+  const { stats } = options;
   const matches: MatchScore[] = [];
+  const index = new BlockingIndex(source2Events);
 
-  // Group events by date for efficiency
-  const source2ByDate = new Map<string, StoredEvent[]>();
-  for (const event of source2Events) {
-    const existing = source2ByDate.get(event.date) || [];
-    existing.push(event);
-    source2ByDate.set(event.date, existing);
-  }
-
-  // Compare each source1 event to source2 events on the same date
   for (const event1 of source1Events) {
-    const candidates = source2ByDate.get(event1.date) || [];
-
-    for (const event2 of candidates) {
-      const score = scoreMatch(event1, event2);
-
-      if (score.totalScore >= minScore) {
+    if (stats) stats.pairs += index.windowSize(event1);
+    for (const candidate of index.candidates(event1)) {
+      const aligned = alignDates(
+        event1,
+        candidate,
+        tuning.crossMidnightMinutes,
+        options
+      );
+      if (!aligned) continue;
+
+      if (stats) stats.scored++;
+      const score = scoreMatch(aligned.event1, aligned.event2, tuning);
+      if (aligned.dayShift) score.reasons.push(`Date: ${aligned.dayShift}`);
+
+      if (score.totalScore >= tuning.minScore) {
         matches.push(score);
       }
     }
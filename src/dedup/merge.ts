@@ -0,0 +1,151 @@
+import { splitVenueLocation, venueKey } from "../enrichment/venues"
+import { PriceType, StoredEvent } from "../types/event"
+
+/**
+ * Field groups a duplicate cluster's members can contribute to the display
+ * row. Paired columns travel together (a start time with its end time,
+ * latitude with longitude) so a row never mixes two listings' halves.
+ */
+export type MergedField =
+  | "title"
+  | "time"
+  | "location"
+  | "coordinates"
+  | "imageUrl"
+  | "description"
+  | "price"
+  | "ticketUrl"
+
+export interface MergedFields {
+  title: string
+  startTime: string | null
+  endTime: string | null
+  allDay: boolean
+  location: string | null
+  venueId: number | null
+  city: string | null
+  latitude: number | null
+  longitude: number | null
+  imageUrl: string | null
+  description: string | null
+  descriptionHtml: string | null
+  priceType: PriceType | null
+  priceMin: number | null
+  priceMax: number | null
+  ticketUrl: string | null
+}
+
+/** Which member each field group came from. */
+export type FieldProvenance = Partial<
+  Record<MergedField, { eventId: string; source: string }>
+>
+
+const SUFFIX_SEPARATOR = /\s+(?:[-–—|@]|at)\s+/gi
+
+/**
+ * The title without a trailing venue name ("Jazz Night at Fargo Theatre",
+ * "Jazz Night - The Fargo Theatre" → "Jazz Night"), judged against the
+ * listing's own location. Titles without one come back trimmed.
+ */
+export function stripVenueSuffix(title: string, location: string | null): string {
+  const trimmed = title.trim()
+  if (!location) return trimmed
+  const venue = venueKey(splitVenueLocation(location).name)
+  if (!venue) return trimmed
+
+  for (const separator of trimmed.matchAll(SUFFIX_SEPARATOR)) {
+    const head = trimmed.slice(0, separator.index).trim()
+    const rest = venueKey(
+      trimmed.slice(separator.index! + separator[0].length),
+    )
+    if (head && rest.length >= 4 && venue.startsWith(rest)) return head
+  }
+  return trimmed
+}
+
+function priceRank(priceType: PriceType | null): number {
+  if (priceType === "free" || priceType === "range") return 2
+  return priceType === "see-site" ? 1 : 0
+}
+
+/**
+ * Best available value per field across a cluster's members, given in
+ * rank order (survivor first). Rules:
+ * - title: the longest once a trailing venue name is stripped
+ * - description: the longest (with its HTML)
+ * - price: a stated price or "free" over "see site" over nothing
+ * - start time: the first member listed on the survivor's date; one matched
+ *   across midnight from the day before or after has a time for that day
+ * - everything else: the first member that has it (location, coordinates
+ *   as a pair, image, ticket URL)
+ */
+export function mergeClusterFields(members: StoredEvent[]): {
+  fields: MergedFields
+  provenance: FieldProvenance
+} {
+  const survivor = members[0]
+  const provenance: FieldProvenance = {}
+  const credit = (field: MergedField, member: StoredEvent | undefined) => {
+    if (member) {
+      provenance[field] = { eventId: member.eventId, source: member.source }
+    }
+    return member
+  }
+  const first = (field: MergedField, has: (m: StoredEvent) => boolean) =>
+    credit(field, members.find(has))
+  const best = (
+    field: MergedField,
+    score: (m: StoredEvent) => number,
+  ): StoredEvent | undefined => {
+    let winner: StoredEvent | undefined
+    let winnerScore = 0
+    for (const member of members) {
+      const memberScore = score(member)
+      if (memberScore > winnerScore) {
+        winner = member
+        winnerScore = memberScore
+      }
+    }
+    return credit(field, winner)
+  }
+
+  const titles = new Map(
+    members.map((m) => [m, stripVenueSuffix(m.title, m.location)]),
+  )
+  const titled = best("title", (m) => titles.get(m)!.length) ?? survivor
+  const timed = first(
+    "time",
+    (m) => m.date === survivor.date && m.startTime != null,
+  )
+  const located = first("location", (m) => m.location != null)
+  const placed = first(
+    "coordinates",
+    (m) => m.latitude != null && m.longitude != null,
+  )
+  const pictured = first("imageUrl", (m) => m.imageUrl != null)
+  const described = best("description", (m) => m.description?.length ?? 0)
+  const priced = best("price", (m) => priceRank(m.priceType ?? null))
+  const ticketed = first("ticketUrl", (m) => m.ticketUrl != null)
+
+  return {
+    fields: {
+      title: titles.get(titled)!,
+      startTime: timed?.startTime ?? null,
+      endTime: timed ? (timed.endTime ?? null) : (survivor.endTime ?? null),
+      allDay: timed ? false : Boolean(survivor.allDay),
+      location: located?.location ?? null,
+      venueId: located?.venueId ?? null,
+      city: located?.city ?? survivor.city,
+      latitude: placed?.latitude ?? null,
+      longitude: placed?.longitude ?? null,
+      imageUrl: pictured?.imageUrl ?? null,
+      description: described?.description ?? null,
+      descriptionHtml: described?.descriptionHtml ?? null,
+      priceType: priced?.priceType ?? null,
+      priceMin: priced?.priceMin ?? null,
+      priceMax: priced?.priceMax ?? null,
+      ticketUrl: ticketed?.ticketUrl ?? null,
+    },
+    provenance,
+  }
+}
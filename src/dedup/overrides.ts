@@ -0,0 +1,160 @@
+import type { MatchOverride, MatchOverrideKeyType } from "../db/database"
+import { StoredEvent } from "../types/event"
+import { MatchScore, normalizeUrl } from "./matcher"
+
+/**
+ * Canonical stored form of an override key pair: URLs normalized the way
+ * the matcher compares them, and the pair sorted so (a, b) and (b, a) are
+ * the same row.
+ */
+export function overrideKeyPair(
+  keyType: MatchOverrideKeyType,
+  a: string,
+  b: string,
+): [string, string] {
+  const [key1, key2] =
+    keyType === "url" ? [normalizeUrl(a), normalizeUrl(b)] : [a.trim(), b.trim()]
+  return key1 <= key2 ? [key1, key2] : [key2, key1]
+}
+
+function pairKey(eventIdA: string, eventIdB: string): string {
+  return eventIdA < eventIdB
+    ? `${eventIdA}|${eventIdB}`
+    : `${eventIdB}|${eventIdA}`
+}
+
+/** The event columns override resolution reads */
+type OverrideEvent = Pick<
+  StoredEvent,
+  "id" | "eventId" | "source" | "url" | "date"
+>
+
+interface EventIndex<T extends OverrideEvent> {
+  byEventId: Map<string, T>
+  byUrl: Map<string, T[]>
+}
+
+function indexEvents<T extends OverrideEvent>(events: T[]): EventIndex<T> {
+  const byEventId = new Map<string, T>()
+  const byUrl = new Map<string, T[]>()
+  for (const event of events) {
+    byEventId.set(event.eventId, event)
+    if (!event.url) continue
+    const key = normalizeUrl(event.url)
+    const existing = byUrl.get(key) || []
+    existing.push(event)
+    byUrl.set(key, existing)
+  }
+  return { byEventId, byUrl }
+}
+
+/**
+ * Event pairs an override applies to. An eventId pair is exactly one pair
+ * (or none once either row is gone). A URL pair covers every date both
+ * URLs list — recurring listings reuse one URL across occurrences — or,
+ * when each URL is a single event, that pair regardless of date (the
+ * off-by-a-day cross-listings an override usually exists for).
+ */
+function resolvePairs<T extends OverrideEvent>(
+  override: MatchOverride,
+  { byEventId, byUrl }: EventIndex<T>,
+): [T, T][] {
+  if (override.keyType === "eventId") {
+    const a = byEventId.get(override.key1)
+    const b = byEventId.get(override.key2)
+    return a && b ? [[a, b]] : []
+  }
+
+  const as = byUrl.get(override.key1) ?? []
+  const bs = byUrl.get(override.key2) ?? []
+  if (as.length === 1 && bs.length === 1) return [[as[0], bs[0]]]
+  return as.flatMap((a) =>
+    bs
+      .filter((b) => b.date === a.date && b.eventId !== a.eventId)
+      .map((b): [T, T] => [a, b]),
+  )
+}
+
+/**
+ * Apply manual overrides to freshly scored matches. A split drops any
+ * direct match between the pair (clustering keeps the pair apart through
+ * third events, see splitPairs); a merge replaces it with a high-confidence
+ * 'manual' match. Direction follows the scorer's: the lower-dedupPriority
+ * source is the dropped side (eventId1), and within one source the older
+ * row is. Overrides apply in creation order, so a newer one wins.
+ */
+export function applyMatchOverrides(
+  matches: MatchScore[],
+  overrides: MatchOverride[],
+  events: StoredEvent[],
+  dedupPriority: (source: string) => number,
+): MatchScore[] {
+  if (overrides.length === 0) return matches
+
+  const index = indexEvents(events)
+  const byPair = new Map<string, MatchScore>()
+  for (const match of matches) {
+    byPair.set(pairKey(match.eventId1, match.eventId2), match)
+  }
+
+  for (const override of overrides) {
+    for (const [a, b] of resolvePairs(override, index)) {
+      const key = pairKey(a.eventId, b.eventId)
+      if (override.action === "split") {
+        byPair.delete(key)
+        continue
+      }
+
+      const priorityA = dedupPriority(a.source)
+      const priorityB = dedupPriority(b.source)
+      const aDropped =
+        priorityA !== priorityB ? priorityA < priorityB : a.id < b.id
+      const [dropped, kept] = aDropped ? [a, b] : [b, a]
+      byPair.set(key, {
+        eventId1: dropped.eventId,
+        eventId2: kept.eventId,
+        titleScore: 1,
+        venueScore: 1,
+        timeScore: 1,
+        geoScore: 1,
+        totalScore: 1,
+        confidence: "high",
+        reasons: [
+          override.note
+            ? `manual merge override: ${override.note}`
+            : "manual merge override",
+        ],
+        matchType: "manual",
+      })
+    }
+  }
+
+  return [...byPair.values()]
+}
+
+/**
+ * Event-id pairs that split overrides keep apart, for clusterMatches:
+ * dropping the pair's own match isn't enough when both still match a third
+ * event. A newer merge of the same pair cancels the split, as it does in
+ * applyMatchOverrides.
+ */
+export function splitPairs(
+  overrides: MatchOverride[],
+  events: OverrideEvent[],
+): [string, string][] {
+  if (overrides.length === 0) return []
+
+  const index = indexEvents(events)
+  const splits = new Map<string, [string, string]>()
+  for (const override of overrides) {
+    for (const [a, b] of resolvePairs(override, index)) {
+      const key = pairKey(a.eventId, b.eventId)
+      if (override.action === "split") {
+        splits.set(key, [a.eventId, b.eventId])
+      } else {
+        splits.delete(key)
+      }
+    }
+  }
+  return [...splits.values()]
+}
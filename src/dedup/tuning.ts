@@ -0,0 +1,122 @@
+/**
+ * Matcher weights and thresholds. Each city can adjust them
+ * (CityConfig.matchTuning), globally and per source pair — sources differ
+ * in which signals they carry (a listing with no start times makes the
+ * time signal noise; a single-venue source makes the venue signal free).
+ */
+
+export interface MatchWeights {
+  title: number
+  venue: number
+  time: number
+  geo: number
+}
+
+export interface ConfidenceCutoff {
+  /** Minimum weighted totalScore */
+  total: number
+  /** Minimum title score on its own */
+  title: number
+}
+
+export interface MatchTuning {
+  /** Signal weights for scoreMatch's totalScore; normally sum to 1 */
+  weights: MatchWeights
+  /** Anything below medium is 'low' (kept in event_matches, not deduped) */
+  confidence: { high: ConfidenceCutoff; medium: ConfidenceCutoff }
+  /** Minimum totalScore for findMatches to record a cross-source pair */
+  minScore: number
+  /** Minimum totalScore for a same-source repost (see findSelfMatches) */
+  selfMinScore: number
+  /**
+   * Listings on adjacent dates are compared when their start times are at
+   * most this many minutes apart across midnight (a 12:30 AM show listed
+   * on the previous night by another source)
+   */
+  crossMidnightMinutes: number
+}
+
+export interface MatchTuningOverrides {
+  weights?: Partial<MatchWeights>
+  confidence?: {
+    high?: Partial<ConfidenceCutoff>
+    medium?: Partial<ConfidenceCutoff>
+  }
+  minScore?: number
+  selfMinScore?: number
+  crossMidnightMinutes?: number
+}
+
+export interface SourcePairTuning {
+  /**
+   * One source: every pair involving it (its self-matches too). Two: that
+   * pair only, in either order; wins over one-source entries.
+   */
+  sources: [string] | [string, string]
+  overrides: MatchTuningOverrides
+}
+
+export interface CityMatchTuning extends MatchTuningOverrides {
+  sourcePairs?: SourcePairTuning[]
+}
+
+export const DEFAULT_MATCH_TUNING: MatchTuning = {
+  weights: { title: 0.5, venue: 0.25, time: 0.15, geo: 0.1 },
+  confidence: {
+    high: { total: 0.85, title: 0.8 },
+    medium: { total: 0.7, title: 0.6 },
+  },
+  minScore: 0.65,
+  selfMinScore: 0.85,
+  crossMidnightMinutes: 60,
+}
+
+function applyOverrides(
+  base: MatchTuning,
+  overrides: MatchTuningOverrides,
+): MatchTuning {
+  return {
+    weights: { ...base.weights, ...overrides.weights },
+    confidence: {
+      high: { ...base.confidence.high, ...overrides.confidence?.high },
+      medium: { ...base.confidence.medium, ...overrides.confidence?.medium },
+    },
+    minScore: overrides.minScore ?? base.minScore,
+    selfMinScore: overrides.selfMinScore ?? base.selfMinScore,
+    crossMidnightMinutes:
+      overrides.crossMidnightMinutes ?? base.crossMidnightMinutes,
+  }
+}
+
+/**
+ * Effective tuning for a pair of sources (the same source twice for
+ * self-matching): defaults, then the city's, then one-source entries,
+ * then the exact-pair entry.
+ */
+export function resolveMatchTuning(
+  city: CityMatchTuning | undefined,
+  sourceA: string,
+  sourceB: string = sourceA,
+): MatchTuning {
+  let tuning = DEFAULT_MATCH_TUNING
+  if (!city) return tuning
+  tuning = applyOverrides(tuning, city)
+
+  const pairs = city.sourcePairs ?? []
+  for (const entry of pairs) {
+    if (
+      entry.sources.length === 1 &&
+      (entry.sources[0] === sourceA || entry.sources[0] === sourceB)
+    ) {
+      tuning = applyOverrides(tuning, entry.overrides)
+    }
+  }
+  for (const entry of pairs) {
+    if (entry.sources.length !== 2) continue
+    const [x, y] = entry.sources
+    if ((x === sourceA && y === sourceB) || (x === sourceB && y === sourceA)) {
+      tuning = applyOverrides(tuning, entry.overrides)
+    }
+  }
+  return tuning
+}
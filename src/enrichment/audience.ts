@@ -0,0 +1,109 @@
+/**
+ * Audience / age-group facet.
+ *
+ * Library calendars (Communico's agesArray) say outright who an event is
+ * for; those labels are normalized at fetch time and stored on the raw
+ * event. Everything else is inferred at display rebuild time from title and
+ * category keywords ("Storytime" → kids, "21+ Release Party" → 21+), so
+ * tuning the rules here only needs a rebuild, not a refetch.
+ */
+
+export type Audience = "kids" | "teens" | "adults" | "all-ages" | "21+"
+
+/** Canonical order — also the order values are serialized in. */
+export const AUDIENCES: readonly Audience[] = [
+  "kids",
+  "teens",
+  "adults",
+  "all-ages",
+  "21+",
+]
+
+interface AudienceRule {
+  audience: Audience
+  /** Tested against each text (title, category names, age labels) */
+  pattern: RegExp
+}
+
+// Every matching rule contributes; an event can be for kids *and* teens.
+const AUDIENCE_RULES: AudienceRule[] = [
+  {
+    audience: "21+",
+    pattern: /\b21\s*\+|\b21 (?:and|&) (?:over|up)\b|\b(?:ages?|over) 21\b/i,
+  },
+  {
+    audience: "all-ages",
+    pattern: /\ball[\s-]ages\b|\bfamil(?:y|ies)\b/i,
+  },
+  {
+    audience: "kids",
+    pattern:
+      /\bstory ?times?\b|\btoddlers?\b|\bpre-?school|\bbab(?:y|ies)\b|\bbirth to\b|\bkids\b|\bchild(?:ren|ren's)?\b|\bjuvenile\b|\belementary\b|\bearly (?:childhood|literacy)\b|\btweens?\b|\blego\b|\bgrades? (?:pre-?k|k|[1-5])\b/i,
+  },
+  {
+    audience: "teens",
+    pattern:
+      /\bteens?\b|\btweens?\b|\byoung adults?\b|\b(?:middle|high) school\b|\bgrades? (?:[6-9]|1[0-2])\b/i,
+  },
+  {
+    audience: "adults",
+    pattern: /(?<!young )\badults?\b|\bseniors?\b|\b18\s*\+/i,
+  },
+]
+
+/**
+ * Facet values for a set of texts (age labels, or title + category names).
+ * 21+ overrides the younger groups: "Family Feud Trivia (21+)" is not a
+ * family event.
+ */
+export function matchAudience(texts: readonly string[]): Audience[] {
+  const found = new Set<Audience>()
+  for (const text of texts) {
+    for (const rule of AUDIENCE_RULES) {
+      if (rule.pattern.test(text)) found.add(rule.audience)
+    }
+  }
+  if (found.has("21+")) {
+    found.delete("kids")
+    found.delete("teens")
+    found.delete("all-ages")
+  }
+  return AUDIENCES.filter((a) => found.has(a))
+}
+
+/** JSON array for the `audience` columns, or null when nothing matched. */
+export function serializeAudience(audience: readonly Audience[]): string | null {
+  return audience.length ? JSON.stringify(audience) : null
+}
+
+export function parseAudience(raw: string | null): Audience[] {
+  if (!raw) return []
+  try {
+    const parsed = JSON.parse(raw) as unknown
+    return Array.isArray(parsed)
+      ? AUDIENCES.filter((a) => parsed.includes(a))
+      : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Stored values a filter on `audience` accepts. All-ages events belong in
+ * every age-group filter except 21+, and 21+ events are adults-only.
+ */
+export function audienceFilterValues(audience: Audience): Audience[] {
+  switch (audience) {
+    case "kids":
+    case "teens":
+      return [audience, "all-ages"]
+    case "adults":
+      return ["adults", "21+", "all-ages"]
+    default:
+      return [audience]
+  }
+}
+
+export function isAudience(value: string): value is Audience {
+  return (AUDIENCES as readonly string[]).includes(value)
+}
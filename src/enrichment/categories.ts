@@ -0,0 +1,280 @@
+/**
+ * Normalized category taxonomy.
+ *
+ * Every source has its own category vocabulary ("Music", "Live Music",
+ * "Concerts", "Arts & Entertainment", …), so the raw names make a long,
+ * near-duplicate filter list. Each city maps them onto a short taxonomy
+ * (src/cities/<city>/categories.ts). Two kinds of category end up on an
+ * event, and each is recorded with its origin:
+ *
+ * - "source": raw category names, matched per source first, then by
+ *   pattern — at display rebuild time, so tuning needs no refetch.
+ * - "inferred": keyword guesses from the title, and — for events whose
+ *   source gave nothing usable — from venue and description rules.
+ *   Computed by the pipeline's inference step (EventDatabase
+ *   .inferEventCategories, re-run by `npm run reenrich`).
+ *
+ * An event can land in several ("Jazz Brunch" → music + food-drink). Raw
+ * categories are kept as-is on the event.
+ */
+
+export interface TaxonomyCategory {
+  /** Stable id used in the API, filters and stored JSON, e.g. "music" */
+  id: string
+  /** Display name, e.g. "Music" */
+  label: string
+  /** Tested against each raw source category name */
+  rawPattern?: RegExp
+  /** Tested against the event title */
+  titlePattern?: RegExp
+}
+
+/**
+ * Keyword rule for events the source left uncategorized (fargotheatre.org,
+ * downtownfargo.com, …). Any given pattern matching assigns the category.
+ */
+export interface CategoryInferenceRule {
+  /** Taxonomy id */
+  category: string
+  title?: RegExp
+  /** Tested against the event's location (venue name + address) */
+  venue?: RegExp
+  /** Tested against the plain-text description */
+  description?: RegExp
+}
+
+export type CategoryOrigin = "source" | "inferred"
+
+export interface CategoryTaxonomy {
+  /** Top-level categories, in display order */
+  categories: TaxonomyCategory[]
+  /** Venue/description/title rules, used only when the source gave nothing */
+  inferenceRules?: CategoryInferenceRule[]
+  /**
+   * source → lowercase raw category name → taxonomy ids, for names that
+   * mean something particular on one source (fargodome.com files
+   * everything that isn't a concert or a game as "Other"). Checked before
+   * rawPattern; an empty list means "ignore this name".
+   */
+  sourceMappings?: Record<string, Record<string, string[]>>
+}
+
+/**
+ * The shared top-level categories; cities use them as-is or extend them.
+ * Raw patterns are deliberately broader than title patterns: a source
+ * category is a statement about the event, a title word is only a hint.
+ */
+export const BASE_TAXONOMY_CATEGORIES: TaxonomyCategory[] = [
+  {
+    id: "music",
+    label: "Music",
+    rawPattern:
+      /music|concert|\bbands?\b|jazz|symphon|orchestra|choir|karaoke|\bdj\b|open mic/i,
+    titlePattern:
+      /\bconcert\b|\blive music\b|\bjazz\b|\bsymphony\b|\borchestra\b|\bkaraoke\b|\bopen mic\b|\bdj\b|\bchoir\b|\bbluegrass\b|\bunplugged\b/i,
+  },
+  {
+    id: "arts",
+    label: "Arts & Theatre",
+    // No "theatre" title keyword: it's mostly venue names ("Fargo Theatre
+    // presents…"), which the city's venue inference rules cover instead.
+    rawPattern:
+      /\barts?\b|theat|museum|gallery|exhibit|\bdance\b|ballet|opera|perform|craft|literary|poetry/i,
+    titlePattern:
+      /\bexhibit(?:ion)?\b|\bgallery\b|\bmusical\b|\bballet\b|\bopera\b|\bpainting\b|\bpoetry\b/i,
+  },
+  {
+    id: "comedy",
+    label: "Comedy",
+    rawPattern: /comed|improv|stand-?up/i,
+    titlePattern: /\bcomedy\b|\bcomedian\b|\bimprov\b|\bstand-?up\b/i,
+  },
+  {
+    id: "film",
+    label: "Film",
+    rawPattern: /film|movie|cinema|screening/i,
+    titlePattern: /\bfilm\b|\bmovie\b|\bscreening\b|\bcinema\b/i,
+  },
+  {
+    id: "festivals",
+    label: "Festivals & Fairs",
+    rawPattern: /festival|\bfairs?\b|\bfest\b|parade|celebration/i,
+    titlePattern: /\bfest(?:ival)?\b|\bfair\b|\bparade\b/i,
+  },
+  {
+    id: "food-drink",
+    label: "Food & Drink",
+    rawPattern: /food|drink|beer|brew|wine|dining|tasting|culinary|cocktail/i,
+    titlePattern:
+      /\bbeer\b|\bwine\b|\btasting\b|\bbrunch\b|\bdinner\b|\bcocktails?\b|\bfood trucks?\b|\bhappy hour\b/i,
+  },
+  {
+    id: "sports",
+    label: "Sports",
+    rawPattern:
+      /sport|athletic|football|basketball|hockey|baseball|softball|soccer|volleyball|wrestling/i,
+    titlePattern:
+      /\bfootball\b|\bbasketball\b|\bhockey\b|\bbaseball\b|\bsoftball\b|\bvolleyball\b|\bwrestling\b|\bsoccer\b/i,
+  },
+  {
+    id: "outdoors",
+    label: "Outdoors & Recreation",
+    rawPattern: /outdoor|recreation|nature|\bparks?\b|garden|hik(?:e|ing)|trail|bik(?:e|ing)/i,
+    titlePattern:
+      /\bhik(?:e|ing)\b|\btrail\b|\bnature\b|\bgarden(?:ing)?\b|\bbirding\b|\bkayak|\bskating\b|\bskiing\b/i,
+  },
+  {
+    id: "family",
+    label: "Family & Kids",
+    rawPattern: /famil|\bkids?\b|child|youth|juvenile|story ?time/i,
+    titlePattern: /\bstory ?times?\b|\bkids?\b|\bfamily\b|\btoddlers?\b|\bchildren\b/i,
+  },
+  {
+    id: "learning",
+    label: "Classes & Talks",
+    rawPattern:
+      /educat|class|workshop|lecture|seminar|learn|\bbooks?\b|author|\bstem\b|science|histor|technology|computer/i,
+    titlePattern:
+      /\bclass\b|\bworkshop\b|\blecture\b|\bseminar\b|\bbook club\b|\bauthor\b|\bhow to\b/i,
+  },
+  {
+    id: "community",
+    label: "Community",
+    rawPattern:
+      /communit|civic|volunteer|fundrais|charit|government|networking|business|faith|church|religio/i,
+    titlePattern:
+      /\bfundrais(?:er|ing)\b|\bvolunteer|\bbenefit\b|\bnetworking\b|\bmeet-?up\b|\btown hall\b/i,
+  },
+  {
+    id: "nightlife",
+    label: "Nightlife",
+    rawPattern: /nightlife|night ?club|\bbars?\b|trivia|\bdrag\b/i,
+    titlePattern:
+      /\btrivia\b|\bdrag (?:show|brunch|bingo)\b|\b(?:bar|pub) crawl\b|\bdance party\b|\b21\s*\+/i,
+  },
+  {
+    id: "wellness",
+    label: "Health & Fitness",
+    rawPattern: /health|fitness|wellness|yoga|exercise|running|meditat/i,
+    titlePattern:
+      /\byoga\b|\bfitness\b|\bzumba\b|\bworkout\b|\bmeditation\b|\b(?:5|10)k\b|\bfun run\b|\bwellness\b/i,
+  },
+  {
+    id: "games",
+    label: "Games & Hobbies",
+    rawPattern: /\bgames?\b|gaming|hobb|tabletop|trading card|puzzle|\blego\b|chess|bingo/i,
+    titlePattern:
+      /\bmagic: the gathering\b|\bmtg\b|\bpok[eé]mon\b|\bd&d\b|\bdungeons\b|\bboard games?\b|\bchess\b|\bbingo\b|\blego\b|\bwarhammer\b|\bgame night\b/i,
+  },
+  {
+    id: "markets",
+    label: "Markets & Shopping",
+    rawPattern: /market|shopping|\bsales?\b|vendor|bazaar|\bexpo\b|flea/i,
+    titlePattern: /\bmarket\b|\bbazaar\b|\bflea\b|\bexpo\b|\bsale\b|\bvendors?\b/i,
+  },
+]
+
+/**
+ * Description patterns every city can use; cities add venue rules of their
+ * own. Kept to phrases that rarely appear outside the category they name.
+ */
+export const BASE_INFERENCE_RULES: CategoryInferenceRule[] = [
+  {
+    category: "music",
+    description:
+      /\blive music\b|\bsinger-songwriter\b|\bopening act\b|\bon tour\b|\bnew album\b/i,
+  },
+  { category: "comedy", description: /\bcomedian\b|\bstand-up\b|\bimprov\b/i },
+  {
+    category: "film",
+    description: /\bdirected by\b|\bscreening\b|\bruntime\b|\brated (?:g|pg|pg-13|r)\b/i,
+  },
+  { category: "food-drink", description: /\bcraft beer\b|\bwine tasting\b|\bfood trucks?\b/i },
+  { category: "wellness", description: /\byoga\b|\bmeditation\b/i },
+]
+
+/** Taxonomy ids from the source's own raw category names, in taxonomy order. */
+export function mapSourceCategories(
+  taxonomy: CategoryTaxonomy,
+  event: { source: string; rawCategories: readonly string[] },
+): string[] {
+  const found = new Set<string>()
+  const sourceMapping = taxonomy.sourceMappings?.[event.source]
+
+  for (const raw of event.rawCategories) {
+    const mapped = sourceMapping?.[raw.trim().toLowerCase()]
+    if (mapped) {
+      mapped.forEach((id) => found.add(id))
+      continue
+    }
+    for (const category of taxonomy.categories) {
+      if (category.rawPattern?.test(raw)) found.add(category.id)
+    }
+  }
+  return orderCategoryIds(taxonomy, found)
+}
+
+/**
+ * Inferred taxonomy ids (excluding ones the source already gave): title
+ * keywords always, plus the city's inference rules when the source's
+ * categories mapped to nothing.
+ */
+export function inferCategories(
+  taxonomy: CategoryTaxonomy,
+  event: {
+    title: string
+    location: string | null
+    description: string | null
+    sourceCategoryIds: readonly string[]
+  },
+): string[] {
+  const found = new Set<string>()
+  for (const category of taxonomy.categories) {
+    if (category.titlePattern?.test(event.title)) found.add(category.id)
+  }
+  if (event.sourceCategoryIds.length === 0) {
+    for (const rule of taxonomy.inferenceRules ?? []) {
+      if (
+        rule.title?.test(event.title) ||
+        (event.location != null && rule.venue?.test(event.location)) ||
+        (event.description != null && rule.description?.test(event.description))
+      ) {
+        found.add(rule.category)
+      }
+    }
+  }
+  event.sourceCategoryIds.forEach((id) => found.delete(id))
+  return orderCategoryIds(taxonomy, found)
+}
+
+/** The given ids in taxonomy (display) order. */
+export function orderCategoryIds(
+  taxonomy: CategoryTaxonomy,
+  ids: ReadonlySet<string>,
+): string[] {
+  return taxonomy.categories.map((c) => c.id).filter((id) => ids.has(id))
+}
+
+/** JSON array for the normalizedCategories column, or null when none matched. */
+export function serializeCategoryIds(ids: readonly string[]): string | null {
+  return ids.length ? JSON.stringify(ids) : null
+}
+
+export function parseCategoryIds(raw: string | null): string[] {
+  if (!raw) return []
+  try {
+    const parsed = JSON.parse(raw) as unknown
+    return Array.isArray(parsed)
+      ? parsed.filter((id): id is string => typeof id === "string")
+      : []
+  } catch {
+    return []
+  }
+}
+
+export function findTaxonomyCategory(
+  taxonomy: CategoryTaxonomy,
+  id: string,
+): TaxonomyCategory | undefined {
+  return taxonomy.categories.find((category) => category.id === id)
+}
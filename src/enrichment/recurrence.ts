@@ -0,0 +1,82 @@
+/**
+ * Cadence detection for recurring series (see tagRecurringSeries). Dates are
+ * "YYYY-MM-DD" strings; weekdays and month lengths are computed in UTC so the
+ * host timezone never shifts a date.
+ */
+
+export interface Cadence {
+  /** Fixed day gap (weekly/biweekly) or a calendar-month rule */
+  kind: "weekly" | "biweekly" | "monthly"
+  /** Stored as recurringCadence and shown in the UI, e.g. "1st Friday monthly" */
+  label: string
+}
+
+const WEEKDAYS = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+]
+
+function ordinal(n: number): string {
+  const suffix =
+    n % 100 >= 11 && n % 100 <= 13
+      ? "th"
+      : ["th", "st", "nd", "rd"][n % 10] ?? "th"
+  return `${n}${suffix}`
+}
+
+function parseDate(date: string) {
+  const year = +date.slice(0, 4)
+  const month = +date.slice(5, 7)
+  const day = +date.slice(8, 10)
+  const utc = Date.UTC(year, month - 1, day)
+  return {
+    day,
+    dayNumber: utc / 86_400_000,
+    monthIndex: year * 12 + month - 1,
+    weekday: new Date(utc).getUTCDay(),
+    daysInMonth: new Date(Date.UTC(year, month, 0)).getUTCDate(),
+  }
+}
+
+/**
+ * The cadence a series' distinct dates (sorted, at least 2) follow, or null:
+ * - uniform 7 / 14 day gaps → "weekly" / "biweekly"
+ * - consecutive months on the same nth weekday → "1st Friday monthly"
+ *   (or "last Thursday monthly" when every date is its month's last)
+ * - consecutive months on the same day of the month → "monthly on the 15th"
+ */
+export function detectCadence(dates: string[]): Cadence | null {
+  if (dates.length < 2) return null
+  const parsed = dates.map(parseDate)
+
+  const gaps = parsed.slice(1).map((d, i) => d.dayNumber - parsed[i].dayNumber)
+  if (gaps.every((g) => g === 7)) return { kind: "weekly", label: "weekly" }
+  if (gaps.every((g) => g === 14)) return { kind: "biweekly", label: "biweekly" }
+
+  const consecutiveMonths = parsed
+    .slice(1)
+    .every((d, i) => d.monthIndex - parsed[i].monthIndex === 1)
+  if (!consecutiveMonths) return null
+
+  const same = <T>(values: T[]) => values.every((v) => v === values[0])
+  const first = parsed[0]
+  if (same(parsed.map((d) => d.weekday))) {
+    const weekday = WEEKDAYS[first.weekday]
+    const nths = parsed.map((d) => Math.ceil(d.day / 7))
+    if (same(nths)) {
+      return { kind: "monthly", label: `${ordinal(nths[0])} ${weekday} monthly` }
+    }
+    if (parsed.every((d) => d.day + 7 > d.daysInMonth)) {
+      return { kind: "monthly", label: `last ${weekday} monthly` }
+    }
+  }
+  if (same(parsed.map((d) => d.day))) {
+    return { kind: "monthly", label: `monthly on the ${ordinal(first.day)}` }
+  }
+  return null
+}
@@ -1,10 +1,13 @@
 /**
- * Known venue enrichment rules.
+ * Known venue enrichment rules, and the helpers behind the canonical
+ * venues table.
  *
  * When an event has no location data but its title matches a known venue,
  * we can backfill the location, city, and coordinates. The rules themselves
  * are per-city data: see src/cities/<city>/venues.ts (e.g. Paradox Comics &
  * Games posts to fargounderground.com without venue details attached).
+ * Every rule is also seeded as a row in the venues table, so events the
+ * rules recognize all link to the same venueId.
  */
 
 export interface VenueRule {
@@ -20,4 +23,108 @@ export interface VenueRule {
   city: string
   latitude: number
   longitude: number
+  /** Other spellings sources use for this venue's location */
+  aliases?: string[]
+}
+
+/** A row of the venues table, with aliases parsed. */
+export interface Venue {
+  id: number
+  slug: string
+  name: string
+  address: string | null
+  city: string | null
+  latitude: number | null
+  longitude: number | null
+  /** Location strings linked to this venue, as sources spell them */
+  aliases: string[]
+}
+
+/**
+ * "Fargo Theatre, 314 Broadway N" → name "Fargo Theatre", address
+ * "314 Broadway N". Locations without a comma are all name.
+ */
+export function splitVenueLocation(location: string): {
+  name: string
+  address: string | null
+} {
+  const comma = location.indexOf(",")
+  if (comma === -1) {
+    return { name: location.trim(), address: null }
+  }
+  return {
+    name: location.slice(0, comma).trim(),
+    address: location.slice(comma + 1).trim() || null,
+  }
+}
+
+/**
+ * Lookup key for venue names and aliases: case, accents, punctuation and a
+ * leading "The" don't distinguish venues ("The Aquarium" = "aquarium").
+ */
+export function venueKey(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .replace(/^the /, "")
+}
+
+/**
+ * Words that place an event somewhere without naming a venue ("Downtown
+ * Fargo", "Online", "Various locations", "TBA").
+ */
+const GENERIC_LOCATION_WORDS = new Set([
+  "online", "virtual", "zoom", "livestream", "streaming", "tba", "tbd",
+  "various", "multiple", "location", "locations", "venue", "venues", "see",
+  "website", "details", "downtown", "uptown", "area", "metro", "city",
+  "citywide", "north", "south", "east", "west", "and", "of", "in",
+  "nd", "mn", "sd", "dakota", "minnesota",
+])
+
+/**
+ * Whether a venue key is too vague to stand for one place: too short, or
+ * only generic words and place names (the city, the event's own city).
+ * Such locations get no venue, so two events "in Downtown Fargo" don't
+ * count as the same place.
+ */
+export function isGenericVenueKey(
+  key: string,
+  placeNames: (string | null)[],
+): boolean {
+  if (key.replace(/ /g, "").length < 4) return true
+  const placeWords = new Set(
+    placeNames.flatMap((place) => (place ? venueKey(place).split(" ") : [])),
+  )
+  return key
+    .split(" ")
+    .every((word) => GENERIC_LOCATION_WORDS.has(word) || placeWords.has(word))
+}
+
+/** URL-safe slug for a venue name ("Fargo Theatre" → "fargo-theatre"). */
+export function venueSlug(name: string): string {
+  return venueKey(name).replace(/ /g, "-") || "venue"
+}
+
+/**
+ * Leading house number of a street address, used to tell apart same-named
+ * venues ("Main Library") at different addresses. Null when there is none.
+ */
+export function addressNumber(address: string | null): string | null {
+  return address?.match(/^\s*(\d+)/)?.[1] ?? null
+}
+
+export function parseVenueAliases(raw: string | null): string[] {
+  if (!raw) return []
+  try {
+    const parsed = JSON.parse(raw) as unknown
+    return Array.isArray(parsed)
+      ? parsed.filter((a): a is string => typeof a === "string")
+      : []
+  } catch {
+    return []
+  }
 }
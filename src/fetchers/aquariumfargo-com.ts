@@ -1,5 +1,10 @@
 import { FargoUndergroundEvent, StoredEvent } from "../types/event"
-import { DEFAULT_BROWSER_HEADERS, fetchTribeEvents } from "./shared"
+import {
+  DEFAULT_BROWSER_HEADERS,
+  fetchTribeEvents,
+  parseCost,
+  sanitizeDescription,
+} from "./shared"
 
 // The default headers carry fargomoorhead.org Referer/Origin; the Aquarium's
 // WAF is touchy (it already 403s the www. host), so send same-site values.
@@ -43,7 +48,11 @@ export class AquariumFargoFetcher {
     event: FargoUndergroundEvent,
   ): Omit<StoredEvent, "id" | "createdAt" | "updatedAt"> {
     const startTimeParts = event.start_date.split(" ")
-    const startTime = startTimeParts.length > 1 ? startTimeParts[1] : null
+    const startTime =
+      !event.all_day && startTimeParts.length > 1 ? startTimeParts[1] : null
+    const endTimeParts = event.end_date.split(" ")
+    const endTime =
+      !event.all_day && endTimeParts.length > 1 ? endTimeParts[1] : null
 
     let location: string | null = null
     if (event.venue) {
@@ -65,12 +74,18 @@ export class AquariumFargoFetcher {
       location,
       date: event.start_date.split(" ")[0],
       startTime,
+      endTime,
+      allDay: event.all_day,
       startDate: event.start_date.split(" ")[0],
       endDate: event.end_date.split(" ")[0],
       latitude: event.venue?.geo_lat || null,
       longitude: event.venue?.geo_lng || null,
       city: event.venue?.city || "Fargo",
       imageUrl: event.image?.url || null,
+      ...sanitizeDescription(event.description),
+      ...parseCost(event.cost),
+      ticketUrl: event.website || null,
+      audience: null,
       categories: JSON.stringify(categories),
       source: "aquariumfargo.com",
     }
@@ -1,6 +1,11 @@
+import { matchAudience, serializeAudience } from "../enrichment/audience"
 import { logError } from "../log"
 import { StoredEvent } from "../types/event"
-import { fetchWithRetry, getDateRangeInTimeZone } from "./shared"
+import {
+  fetchWithRetry,
+  getDateRangeInTimeZone,
+  sanitizeDescription,
+} from "./shared"
 
 export interface CommunicoEvent {
   id: string
@@ -13,6 +18,8 @@ export interface CommunicoEvent {
   url: string
   private_event: string // "0" | "1"
   event_type: string // "INPERSON" | "VIRTUAL" | ...
+  /** HTML event description */
+  description?: string
   tagsArray?: string[]
   agesArray?: string[]
 }
@@ -141,9 +148,11 @@ export class CommunicoFetcher {
     // event_start is "YYYY-MM-DD HH:MM:SS" in the library's local wall time;
     // keep the parts verbatim so a server in another tz doesn't shift the day.
     const [startDate, startClock] = event.event_start.split(" ")
-    const [endDate] = (event.event_end || event.event_start).split(" ")
+    const [endDate, endClock] = (event.event_end || event.event_start).split(" ")
     const startTime =
       startClock && startClock !== "00:00:00" ? startClock : null
+    const endTime =
+      event.event_end && endClock && endClock !== "00:00:00" ? endClock : null
 
     const categories = (event.tagsArray ?? [])
       .filter(Boolean)
@@ -162,12 +171,20 @@ export class CommunicoFetcher {
       location: branch?.location ?? event.location,
       date: startDate,
       startTime,
+      endTime,
+      allDay: false,
       startDate,
       endDate,
       latitude: branch?.latitude ?? null,
       longitude: branch?.longitude ?? null,
       city: branch?.city ?? null,
       imageUrl: null,
+      ...sanitizeDescription(event.description),
+      priceType: null,
+      priceMin: null,
+      priceMax: null,
+      ticketUrl: null,
+      audience: serializeAudience(matchAudience(event.agesArray ?? [])),
       categories: JSON.stringify(categories),
       source: this.config.sourceId,
     }
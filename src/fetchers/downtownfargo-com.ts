@@ -1,7 +1,9 @@
 import { StoredEvent } from "../types/event"
 import {
+  addDaysToYmd,
   DEFAULT_BROWSER_HEADERS,
   fetchWithRetry,
+  formatYmd,
   getDateRangeInTimeZone,
 } from "./shared"
 
@@ -18,6 +20,14 @@ interface DowntownFargoEventWithDetails extends DowntownFargoEvent {
   location?: string
 }
 
+/**
+ * Downtown Fargo's calendar is a FullCalendar JSON feed (POST
+ * `/events/feed`), not an HTML listing, so it stays off HtmlListingFetcher:
+ * the feed's start/end instants carry the end time, all-day flag and
+ * multi-day runs that a listing scrape can't, and `dtf_<id>` eventIds are
+ * what change history and match overrides are keyed on. Only the venue is
+ * scraped, from each event page.
+ */
 export class DowntownFargoFetcher {
   private readonly clientTimeZone = "America/Chicago"
   private readonly feedUrl = "https://www.downtownfargo.com/events/feed"
@@ -122,11 +132,19 @@ export class DowntownFargoFetcher {
     // Preserve source-local wall clock values from ISO-like strings to avoid VPS timezone shifts.
     const startDatePart = event.start.split("T")[0]
     const startTimePart = event.start.split("T")[1]?.slice(0, 8) || null
-    const endDatePart = event.end.split("T")[0]
+    const endRaw = event.end || event.start
+    const endDatePart = endRaw.split("T")[0]
+    const endTimePart = endRaw.split("T")[1]?.slice(0, 8) || null
 
     const date = startDatePart
     const startTime = startTimePart
-    const endDate = endDatePart
+    // FullCalendar all-day ends are exclusive (a one-day event "ends" at the
+    // next midnight), so step back to the last day it actually runs.
+    let endDate = endDatePart
+    if (event.allDay && endDatePart > startDatePart) {
+      const [y, m, d] = endDatePart.split("-").map(Number)
+      endDate = formatYmd(addDaysToYmd({ year: y, month: m, day: d }, -1))
+    }
 
     return {
       eventId: `dtf_${event.url.replace("/events/", "")}`,
@@ -135,12 +153,21 @@ export class DowntownFargoFetcher {
       location: event.location || null,
       date,
       startTime: event.allDay ? null : startTime,
+      endTime: event.allDay || !event.end ? null : endTimePart,
+      allDay: event.allDay,
       startDate: date,
       endDate,
       latitude: null,
       longitude: null,
       city: "Fargo",
       imageUrl: null,
+      description: null,
+      descriptionHtml: null,
+      priceType: null,
+      priceMin: null,
+      priceMax: null,
+      ticketUrl: null,
+      audience: null,
       categories: JSON.stringify([]),
       source: "downtownfargo.com",
     }
@@ -1,5 +1,10 @@
 import { FargoUndergroundEvent, StoredEvent } from "../types/event"
-import { DEFAULT_BROWSER_HEADERS, fetchTribeEvents } from "./shared"
+import {
+  DEFAULT_BROWSER_HEADERS,
+  fetchTribeEvents,
+  parseCost,
+  sanitizeDescription,
+} from "./shared"
 
 /**
  * Drekker Brewing runs The Events Calendar (Tribe) on WordPress, exposing
@@ -35,7 +40,11 @@ export class DrekkerBrewingFetcher {
     event: FargoUndergroundEvent,
   ): Omit<StoredEvent, "id" | "createdAt" | "updatedAt"> {
     const startTimeParts = event.start_date.split(" ")
-    const startTime = startTimeParts.length > 1 ? startTimeParts[1] : null
+    const startTime =
+      !event.all_day && startTimeParts.length > 1 ? startTimeParts[1] : null
+    const endTimeParts = event.end_date.split(" ")
+    const endTime =
+      !event.all_day && endTimeParts.length > 1 ? endTimeParts[1] : null
 
     let location: string | null = null
     if (event.venue) {
@@ -57,12 +66,18 @@ export class DrekkerBrewingFetcher {
       location,
       date: event.start_date.split(" ")[0],
       startTime,
+      endTime,
+      allDay: event.all_day,
       startDate: event.start_date.split(" ")[0],
       endDate: event.end_date.split(" ")[0],
       latitude: event.venue?.geo_lat || null,
       longitude: event.venue?.geo_lng || null,
       city: event.venue?.city || "Fargo",
       imageUrl: event.image?.url || null,
+      ...sanitizeDescription(event.description),
+      ...parseCost(event.cost),
+      ticketUrl: event.website || null,
+      audience: null,
       categories: JSON.stringify(categories),
       source: "drekkerbrewing.com",
     }
@@ -5,6 +5,7 @@ import {
   DEFAULT_BROWSER_HEADERS,
   fetchWithRetry,
   rssTag,
+  sanitizeDescription,
   slugify,
   utcInstantToLocal,
 } from "./shared"
@@ -19,6 +20,8 @@ export interface FargodomeEvent {
   location: string
   /** ev:type, e.g. "Concert" / "Sports" / "Other" */
   type: string
+  /** RSS <description> (HTML) */
+  description: string
 }
 
 /**
@@ -55,6 +58,7 @@ export class FargodomeFetcher {
           endRaw: rssTag(item, "ev:enddate") || startRaw,
           location: rssTag(item, "ev:location"),
           type: rssTag(item, "ev:type"),
+          description: rssTag(item, "description"),
         })
       }
 
@@ -82,12 +86,21 @@ export class FargodomeFetcher {
       location: event.location || "FARGODOME",
       date: start.date,
       startTime: start.time,
+      // endRaw falls back to startRaw when the feed has no ev:enddate
+      endTime: event.endRaw === event.startRaw ? null : end.time,
+      allDay: false,
       startDate: start.date,
       endDate: end.date,
       latitude: null,
       longitude: null,
       city: "Fargo",
       imageUrl: null,
+      ...sanitizeDescription(event.description),
+      priceType: null,
+      priceMin: null,
+      priceMax: null,
+      ticketUrl: null,
+      audience: null,
       categories: JSON.stringify(
         event.type ? [{ catName: event.type }] : [],
       ),
@@ -108,12 +108,21 @@ export class FargoLibraryFetcher {
       location,
       date: localDateStr,
       startTime,
+      endTime: null,
+      allDay: false,
       startDate: localDateStr,
       endDate: localDateStr,
       latitude: null,
       longitude: null,
       city: "Fargo",
       imageUrl: null,
+      description: null,
+      descriptionHtml: null,
+      priceType: null,
+      priceMin: null,
+      priceMax: null,
+      ticketUrl: null,
+      audience: null,
       categories: JSON.stringify(categories),
       source: "fargolibrary.org",
     }
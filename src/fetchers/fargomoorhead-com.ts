@@ -4,6 +4,7 @@ import {
   DEFAULT_BROWSER_HEADERS,
   fetchWithRetry,
   getDateRangeInTimeZone,
+  sanitizeDescription,
   toTimeZoneMidnightIso,
 } from "./shared"
 
@@ -121,6 +122,7 @@ export class FargoFetcher {
           latitude: 1,
           longitude: 1,
           media_raw: 1,
+          description: 1,
           recid: 1,
           title: 1,
           url: 1,
@@ -206,8 +208,12 @@ export class FargoFetcher {
       location: event.location || null,
       date,
       startTime,
-      startDate: this.toDateOnly(event.startDate),
-      endDate: this.toDateOnly(event.endDate || event.startDate),
+      endTime: event.endTime || null,
+      allDay: false,
+      // One doc per day already (see SimpleviewFetcher); the doc's own
+      // startDate/endDate are the recurrence series bounds.
+      startDate: date,
+      endDate: date,
       latitude: event.latitude || null,
       longitude: event.longitude || null,
       city: event.city || null,
@@ -215,6 +221,12 @@ export class FargoFetcher {
         event.media_raw && event.media_raw.length > 0
           ? event.media_raw[0].mediaurl
           : null,
+      ...sanitizeDescription(event.description),
+      priceType: null,
+      priceMin: null,
+      priceMax: null,
+      ticketUrl: null,
+      audience: null,
       categories: JSON.stringify(event.categories),
       source: "fargomoorhead.org",
     }
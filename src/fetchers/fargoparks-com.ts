@@ -92,6 +92,8 @@ export class FargoParksFetcher {
     const date = event.start.slice(0, 10)
     const time = event.start.slice(11, 19) || null
     const startTime = time === "00:00:00" ? null : time
+    const endClock = event.end.slice(11, 19) || null
+    const endTime = endClock === "00:00:00" ? null : endClock
     const slug = event.viewNode.split("/").filter(Boolean).pop() ?? "event"
 
     return {
@@ -103,12 +105,21 @@ export class FargoParksFetcher {
       location: null,
       date,
       startTime,
+      endTime,
+      allDay: false,
       startDate: date,
       endDate: event.end.slice(0, 10) || date,
       latitude: null,
       longitude: null,
       city: "Fargo",
       imageUrl: null,
+      description: null,
+      descriptionHtml: null,
+      priceType: null,
+      priceMin: null,
+      priceMax: null,
+      ticketUrl: null,
+      audience: null,
       categories: JSON.stringify(
         event.category ? [{ catName: event.category }] : [],
       ),
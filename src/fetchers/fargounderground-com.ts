@@ -1,7 +1,11 @@
 import { logError } from "../log"
 import { StoredEvent } from "../types/event"
 import { ICalEvent, parseICal } from "./ical"
-import { fetchWithRetry, getDateRangeInTimeZone } from "./shared"
+import {
+  fetchWithRetry,
+  getDateRangeInTimeZone,
+  sanitizeDescription,
+} from "./shared"
 
 export class FargoUndergroundFetcher {
   private readonly timeZone = "America/Chicago"
@@ -22,7 +26,9 @@ export class FargoUndergroundFetcher {
         "Fargo Underground iCal fetch",
       )
       const raw = await response.text()
-      const all = parseICal(raw, this.timeZone)
+      const all = parseICal(raw, this.timeZone, {
+        until: dateRange.endDateStr,
+      })
       const inWindow = all.filter(
         (e) => e.date >= dateRange.startDateStr && e.date <= dateRange.endDateStr,
       )
@@ -53,12 +59,20 @@ export class FargoUndergroundFetcher {
       location: event.location,
       date: event.date,
       startTime: event.startTime,
+      endTime: event.endTime,
+      allDay: event.allDay,
       startDate: event.date,
       endDate: event.endDate,
       latitude: event.latitude,
       longitude: event.longitude,
       city: cityFromLocation(event.location),
       imageUrl: event.imageUrl,
+      ...sanitizeDescription(event.description),
+      priceType: null,
+      priceMin: null,
+      priceMax: null,
+      ticketUrl: null,
+      audience: null,
       categories: JSON.stringify(categories),
       source: "fargounderground.com",
     }
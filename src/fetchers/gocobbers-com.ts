@@ -7,6 +7,7 @@ import {
   formatYmd,
   addDaysToYmd,
   getDatePartsInTimeZone,
+  sanitizeDescription,
 } from "./shared"
 
 export type GoCobbersEvent = ICalEvent
@@ -38,7 +39,7 @@ export class GoCobbersFetcher {
         4,
       )
       const ical = await response.text()
-      const parsed = parseICal(ical, this.timeZone)
+      const parsed = parseICal(ical, this.timeZone, { until: endStr })
 
       const events = parsed.filter(
         (e) => e.date >= startStr && e.date <= endStr,
@@ -71,12 +72,20 @@ export class GoCobbersFetcher {
       location: event.location,
       date: event.date,
       startTime: event.startTime,
+      endTime: event.endTime,
+      allDay: event.allDay,
       startDate: event.date,
       endDate: event.endDate,
       latitude: null,
       longitude: null,
       city: "Moorhead",
       imageUrl: null,
+      ...sanitizeDescription(event.description),
+      priceType: null,
+      priceMin: null,
+      priceMax: null,
+      ticketUrl: null,
+      audience: null,
       categories: JSON.stringify([{ catName: "Sports", catId: "sports" }]),
       source: "gocobbers.com",
     }
@@ -0,0 +1,377 @@
+import { decodeHtmlEntities } from "../dedup/normalize"
+import { logError } from "../log"
+import { StoredEvent } from "../types/event"
+import {
+  DEFAULT_BROWSER_HEADERS,
+  fetchWithRetry,
+  getDateRangeInTimeZone,
+  slugify,
+} from "./shared"
+
+/**
+ * How a listing writes its dates, tried in the configured order:
+ * - "month-name": "Friday, October 9th, 2026", "Oct 9", "Sept. 12, 2026"
+ * - "numeric": US "10/9/2026", "10/9/26", "10/9"
+ * - "iso": "2026-10-09" (datetime attributes)
+ * A date without a year gets the year that puts it no more than a month
+ * before the fetch window (listings only show upcoming dates).
+ */
+export type DateFormatHint = "month-name" | "numeric" | "iso"
+
+/**
+ * Field extractors run against one item's HTML; the first capture group is
+ * the value. Text fields are entity-decoded with tags stripped; link and
+ * image are resolved against the page URL.
+ */
+export interface HtmlListingFields {
+  title: RegExp
+  link: RegExp
+  /** Required unless the source declares a dateHeader */
+  date?: RegExp
+  /** Text holding the start time ("7:30 PM", "7pm", "19:30", "Noon") */
+  time?: RegExp
+  image?: RegExp
+  location?: RegExp
+}
+
+export interface HtmlListingPagination {
+  /** Page URL with a `{page}` placeholder, e.g. "https://x.com/events?page={page}" */
+  urlTemplate: string
+  /** First page number (default 1) */
+  firstPage?: number
+  /** Safety valve (default 10); an empty or repeated page ends the walk first */
+  maxPages?: number
+}
+
+export interface HtmlListingSourceConfig {
+  /** The listing page (page 1 when paginated via urlTemplate) */
+  listingUrl: string
+  /** Source id stored on events, e.g. "fargotheatre.org" */
+  sourceId: string
+  /** eventId prefix: "ftheatre" → "ftheatre_<url slug>_<date>" */
+  eventIdPrefix: string
+  /** Log label, e.g. "Fargo Theatre events fetch" */
+  label: string
+  /** City stored on every event */
+  defaultCity: string | null
+  /** Location for items without one (single-venue sites) */
+  defaultLocation?: string
+  /** Coordinates for every event (single-venue sites) */
+  coordinates?: { latitude: number; longitude: number }
+  /** IANA timezone for the window (default America/Chicago) */
+  timeZone?: string
+  daysAhead?: number
+  /**
+   * Where each listing item starts, e.g. /<div class="post">/. The page is
+   * split before every match, so an item runs until the next one starts.
+   */
+  item: RegExp
+  fields: HtmlListingFields
+  /**
+   * Date-group headings for listings that show the date once above a run
+   * of items (`<h2>June 11, 2026</h2>`); capture group 1 is the date text.
+   * Items take the closest preceding header's date, and the walk stops
+   * once headers pass the window.
+   */
+  dateHeader?: RegExp
+  /** Default ["month-name", "iso", "numeric"] */
+  dateFormats?: DateFormatHint[]
+  pagination?: HtmlListingPagination
+  /**
+   * Query param set to the run's timestamp on every request, for CMS page
+   * caches that serve weeks-old listings to repeat URLs.
+   */
+  cacheBuster?: string
+  /** Request headers (default DEFAULT_BROWSER_HEADERS with an HTML Accept) */
+  headers?: Record<string, string>
+  /** fetchWithRetry attempts (default 3) */
+  maxAttempts?: number
+  /** Raw categories stored on every event */
+  defaultCategories?: string[]
+  /** Items whose title matches are dropped */
+  skipTitle?: RegExp
+}
+
+/** One listing item, as extracted by the config's fields. */
+export interface HtmlListingEvent {
+  title: string
+  url: string
+  /** YYYY-MM-DD */
+  date: string
+  /** HH:MM:SS or null when the item shows no parseable start time */
+  startTime: string | null
+  location: string | null
+  imageUrl: string | null
+}
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6,
+  jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12,
+}
+
+const DEFAULT_DATE_FORMATS: DateFormatHint[] = ["month-name", "iso", "numeric"]
+
+function cleanText(html: string): string {
+  return decodeHtmlEntities(html)
+    .replace(/<[^>]+>/g, " ")
+    .replace(/\s{2,}/g, " ")
+    .trim()
+}
+
+function ymd(year: number, month: number, day: number): string | null {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`
+}
+
+/**
+ * First date in `text` in one of the hinted formats → "YYYY-MM-DD".
+ * `earliest` (YYYY-MM-DD) anchors dates that omit the year.
+ */
+export function parseListingDate(
+  text: string,
+  formats: DateFormatHint[],
+  earliest: string,
+): string | null {
+  const withYear = (month: number, day: number, year: string | undefined) => {
+    if (year) return ymd(year.length === 2 ? 2000 + +year : +year, month, day)
+    const base = +earliest.slice(0, 4)
+    const candidate = ymd(base, month, day)
+    if (!candidate) return null
+    return candidate >= earliest ? candidate : ymd(base + 1, month, day)
+  }
+
+  for (const format of formats) {
+    if (format === "iso") {
+      const m = text.match(/\b(\d{4})-(\d{2})-(\d{2})\b/)
+      if (m) return ymd(+m[1], +m[2], +m[3])
+    } else if (format === "month-name") {
+      const m = text.match(
+        /\b(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?\s+(\d{1,2})(?:st|nd|rd|th)?\b(?:,?\s+(\d{4}))?/i,
+      )
+      if (m) return withYear(MONTHS[m[1].toLowerCase()], +m[2], m[3])
+    } else {
+      const m = text.match(/\b(\d{1,2})\/(\d{1,2})(?:\/(\d{4}|\d{2}))?\b/)
+      if (m) return withYear(+m[1], +m[2], m[3])
+    }
+  }
+  return null
+}
+
+/** First start time in `text` → "HH:MM:SS" ("7:30 PM", "7pm", "19:30", "Noon"). */
+export function parseListingTime(text: string): string | null {
+  const meridiem = text.match(/\b(\d{1,2})(?::(\d{2}))?\s*([ap])\.?\s?m\b\.?/i)
+  if (meridiem) {
+    let hour = Number(meridiem[1]) % 12
+    if (meridiem[3].toLowerCase() === "p") hour += 12
+    return `${String(hour).padStart(2, "0")}:${meridiem[2] ?? "00"}:00`
+  }
+  if (/\bnoon\b/i.test(text)) return "12:00:00"
+  const clock = text.match(/\b([01]?\d|2[0-3]):([0-5]\d)\b/)
+  return clock ? `${clock[1].padStart(2, "0")}:${clock[2]}:00` : null
+}
+
+/**
+ * Config-driven scraper for server-rendered event listings: a source
+ * declares where items start and a regex per field instead of hand-rolling
+ * the page walk, so a new venue site is one config object. (Sites with
+ * schema.org markup are better served by JsonLdFetcher.) Try a config with
+ * `npm run refetch:dry -- --source <alias>`.
+ */
+export class HtmlListingFetcher {
+  private readonly timeZone: string
+
+  constructor(private readonly config: HtmlListingSourceConfig) {
+    this.timeZone = config.timeZone ?? "America/Chicago"
+  }
+
+  private pageUrls(): string[] {
+    const { listingUrl, pagination } = this.config
+    if (!pagination) return [listingUrl]
+    const first = pagination.firstPage ?? 1
+    return Array.from({ length: pagination.maxPages ?? 10 }, (_, i) =>
+      pagination.urlTemplate.replace("{page}", String(first + i)),
+    )
+  }
+
+  private async readPage(url: string, page: number): Promise<string> {
+    const origin = new URL(url).origin
+    const response = await fetchWithRetry(
+      url,
+      {
+        headers: this.config.headers ?? {
+          ...DEFAULT_BROWSER_HEADERS,
+          Accept:
+            "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
+          Referer: `${origin}/`,
+          Origin: origin,
+        },
+      },
+      this.config.pagination
+        ? `${this.config.label} (page ${page})`
+        : this.config.label,
+      this.config.maxAttempts,
+    )
+    return response.text()
+  }
+
+  async fetchEvents(
+    daysAhead: number = this.config.daysAhead ?? 14,
+  ): Promise<HtmlListingEvent[]> {
+    try {
+      const dateRange = getDateRangeInTimeZone(daysAhead, this.timeZone)
+      console.log(
+        `   Date range (${this.timeZone}): ${dateRange.startDateStr} to ${dateRange.endDateStr}`,
+      )
+
+      const { item, dateHeader, fields, skipTitle } = this.config
+      const formats = this.config.dateFormats ?? DEFAULT_DATE_FORMATS
+      const [y, m, d] = dateRange.startDateStr.split("-").map(Number)
+      // Year-less dates may be up to a month old (still-running shows)
+      const earliest = new Date(Date.UTC(y, m - 2, d)).toISOString().slice(0, 10)
+      const cacheBuster = String(Date.now())
+
+      // Where items (and date headers) start; String.split would splice the
+      // patterns' capture groups into its output, so cut at match positions
+      const starts = new RegExp(
+        [item, ...(dateHeader ? [dateHeader] : [])]
+          .map((re) => `(?:${re.source})`)
+          .join("|"),
+        `${item.flags.replace("g", "")}g`,
+      )
+      const tokensOf = (html: string) => {
+        const positions = [...html.matchAll(starts)].map((m) => m.index ?? 0)
+        return positions.map((at, i) => html.slice(at, positions[i + 1]))
+      }
+      const anchored = (re: RegExp) =>
+        new RegExp(`^(?:${re.source})`, re.flags.replace("g", ""))
+      const itemStart = anchored(item)
+      const headerStart = dateHeader ? anchored(dateHeader) : null
+
+      const events: HtmlListingEvent[] = []
+      const seen = new Set<string>()
+      let currentDate: string | null = null
+      let pastWindow = false
+
+      const pages = this.pageUrls()
+      for (let page = 0; page < pages.length && !pastWindow; page++) {
+        const url = new URL(pages[page])
+        if (this.config.cacheBuster) {
+          url.searchParams.set(this.config.cacheBuster, cacheBuster)
+        }
+        const html = await this.readPage(url.href, page + 1)
+
+        const countBeforePage = events.length
+        let itemsOnPage = 0
+        for (const token of tokensOf(html)) {
+          const header = headerStart ? token.match(headerStart) : null
+          if (header) {
+            const parsed = parseListingDate(cleanText(header[1] ?? ""), formats, earliest)
+            if (parsed) {
+              currentDate = parsed
+              if (parsed > dateRange.endDateStr) {
+                pastWindow = true
+                break
+              }
+            }
+            continue
+          }
+          if (!itemStart.test(token)) continue
+          itemsOnPage++
+
+          const field = (re: RegExp | undefined) => (re ? token.match(re)?.[1] : undefined)
+          const link = field(fields.link)
+          const titleHtml = field(fields.title)
+          if (!link || !titleHtml) continue
+          const dateText = field(fields.date)
+          const date = dateText
+            ? parseListingDate(cleanText(dateText), formats, earliest)
+            : currentDate
+          if (!date || date < dateRange.startDateStr || date > dateRange.endDateStr) {
+            continue
+          }
+          const title = cleanText(titleHtml)
+          if (!title || skipTitle?.test(title)) continue
+
+          const eventUrl = new URL(decodeHtmlEntities(link), url).href
+          const key = `${eventUrl}|${date}`
+          if (seen.has(key)) continue
+          seen.add(key)
+
+          const image = field(fields.image)
+          const location = field(fields.location)
+          const timeText = field(fields.time)
+          events.push({
+            title,
+            url: eventUrl,
+            date,
+            startTime: timeText ? parseListingTime(cleanText(timeText)) : null,
+            location: location ? cleanText(location) || null : null,
+            imageUrl: image ? new URL(decodeHtmlEntities(image), url).href : null,
+          })
+        }
+
+        const newOnPage = events.length - countBeforePage
+        if (this.config.pagination) {
+          console.log(`   Page ${page + 1}: ${itemsOnPage} items, ${newOnPage} new`)
+        }
+        if (itemsOnPage === 0) break
+        // Past the last real page some CMSes re-serve the final page's items;
+        // the seen-set makes that contribute 0 new events — stop there. With
+        // date headers, only once they reach the window (a stale-cache page
+        // opening with past dates must not end the walk).
+        if (
+          newOnPage === 0 &&
+          (!dateHeader ||
+            (currentDate !== null && currentDate >= dateRange.startDateStr))
+        ) {
+          break
+        }
+      }
+
+      console.log(`   Parsed ${events.length} events in window`)
+      return events
+    } catch (error) {
+      logError(`Error in ${this.config.label}:`, error)
+      throw error
+    }
+  }
+
+  transformToStoredEvent(
+    event: HtmlListingEvent,
+  ): Omit<StoredEvent, "id" | "createdAt" | "updatedAt"> {
+    const path = new URL(event.url).pathname.split("/").filter(Boolean)
+    const slug =
+      (event.url !== this.config.listingUrl && path.pop()) ||
+      slugify(event.title)
+    const categories = (this.config.defaultCategories ?? []).map((name) => ({
+      catName: name,
+      catId: name,
+    }))
+
+    return {
+      eventId: `${this.config.eventIdPrefix}_${slug}_${event.date}`,
+      title: event.title,
+      url: event.url,
+      location: event.location ?? this.config.defaultLocation ?? null,
+      date: event.date,
+      startTime: event.startTime,
+      endTime: null,
+      allDay: false,
+      startDate: event.date,
+      endDate: event.date,
+      latitude: this.config.coordinates?.latitude ?? null,
+      longitude: this.config.coordinates?.longitude ?? null,
+      city: this.config.defaultCity,
+      imageUrl: event.imageUrl,
+      description: null,
+      descriptionHtml: null,
+      priceType: null,
+      priceMin: null,
+      priceMax: null,
+      ticketUrl: null,
+      audience: null,
+      categories: JSON.stringify(categories),
+      source: this.config.sourceId,
+    }
+  }
+}
@@ -1,5 +1,6 @@
 import { decodeHtmlEntities } from "../dedup/normalize"
-import { slugify, utcInstantToLocal } from "./shared"
+import { expandRRule, parseRRule } from "./rrule"
+import { addDaysToYmd, formatYmd, slugify, utcInstantToLocal } from "./shared"
 
 /** One parsed VEVENT, reduced to the fields the fetchers consume. */
 export interface ICalEvent {
@@ -7,10 +8,14 @@ export interface ICalEvent {
   title: string
   /** Local wall-clock date, YYYY-MM-DD */
   date: string
-  /** Local end date, YYYY-MM-DD */
+  /** Local end date (inclusive), YYYY-MM-DD */
   endDate: string
   /** Local wall-clock start, HH:MM:SS, or null for all-day entries */
   startTime: string | null
+  /** Local wall-clock end, HH:MM:SS, or null for all-day / open-ended entries */
+  endTime: string | null
+  /** DTSTART was a bare date (VALUE=DATE) */
+  allDay: boolean
   location: string | null
   /** From GEO property, when present */
   latitude: number | null
@@ -19,32 +24,102 @@ export interface ICalEvent {
   imageUrl: string | null
   /** From URL property, when present */
   eventUrl: string | null
+  /** From DESCRIPTION property (unescaped text; may carry HTML), when present */
+  description: string | null
   /** From CATEGORIES property, split on commas */
   categoriesRaw: string[]
 }
 
+export interface ICalParseOptions {
+  /**
+   * Last local date (YYYY-MM-DD) to expand recurring VEVENTs through —
+   * the fetch horizon. Without it an open-ended RRULE stops at rrule.ts's
+   * occurrence cap.
+   */
+  until?: string
+}
+
+type ICalProperty = { params: string; value: string }
+
+interface VEvent {
+  /** Single-valued properties; a repeated one keeps its last value */
+  fields: Record<string, ICalProperty>
+  /** EXDATE / RDATE may repeat, each line with its own TZID */
+  exDates: ICalProperty[]
+  rDates: ICalProperty[]
+}
+
+type LocalDateTime = { date: string; time: string | null }
+
 /**
  * Minimal RFC 5545 parser: just the VEVENT fields we consume. Feed values are
  * either `;VALUE=DATE:YYYYMMDD` (all-day) or `;TZID=…:YYYYMMDDThhmmss`
  * (already local — kept as-is to avoid VPS timezone shifts). A trailing `Z`
  * (UTC) is converted to the given timezone.
+ *
+ * Recurring VEVENTs (RRULE / RDATE, e.g. Google Calendar exports) come back
+ * as one ICalEvent per occurrence sharing the master's UID, minus EXDATEs
+ * and minus instances a RECURRENCE-ID VEVENT overrides (that VEVENT is
+ * returned in their place, unless it's STATUS:CANCELLED).
  */
-export function parseICal(raw: string, timeZone: string): ICalEvent[] {
-  const lines = unfoldICalLines(raw)
+export function parseICal(
+  raw: string,
+  timeZone: string,
+  options: ICalParseOptions = {},
+): ICalEvent[] {
+  const vevents = collectVEvents(unfoldICalLines(raw))
+
+  // uid → local starts replaced (or cancelled) by a RECURRENCE-ID VEVENT
+  const overridden = new Map<string, Set<string>>()
+  for (const { fields } of vevents) {
+    const recurrenceId = fields["RECURRENCE-ID"]
+    const uid = fields["UID"]?.value.trim()
+    if (!recurrenceId || !uid) continue
+    const at = parseICalDateTime(recurrenceId.params, recurrenceId.value, timeZone)
+    if (!at) continue
+    const starts = overridden.get(uid) ?? new Set<string>()
+    starts.add(occurrenceKey(at))
+    overridden.set(uid, starts)
+  }
+
   const events: ICalEvent[] = []
+  for (const vevent of vevents) {
+    const event = toEvent(vevent.fields, timeZone)
+    if (!event) continue
+    if (vevent.fields["RECURRENCE-ID"]) {
+      if (!/^CANCELLED$/i.test(vevent.fields["STATUS"]?.value.trim() ?? "")) {
+        events.push(event)
+      }
+      continue
+    }
+    if (!vevent.fields["RRULE"] && !vevent.rDates.length) {
+      events.push(event)
+      continue
+    }
+    events.push(
+      ...expandOccurrences(
+        vevent,
+        event,
+        timeZone,
+        options.until ?? null,
+        overridden.get(event.uid),
+      ),
+    )
+  }
+  return events
+}
 
-  let current: Record<string, { params: string; value: string }> | null = null
+function collectVEvents(lines: string[]): VEvent[] {
+  const vevents: VEvent[] = []
+  let current: VEvent | null = null
 
   for (const line of lines) {
     if (line === "BEGIN:VEVENT") {
-      current = {}
+      current = { fields: {}, exDates: [], rDates: [] }
       continue
     }
     if (line === "END:VEVENT") {
-      if (current) {
-        const event = toEvent(current, timeZone)
-        if (event) events.push(event)
-      }
+      if (current) vevents.push(current)
       current = null
       continue
     }
@@ -57,10 +132,158 @@ export function parseICal(raw: string, timeZone: string): ICalEvent[] {
     const semi = namePart.indexOf(";")
     const name = (semi === -1 ? namePart : namePart.slice(0, semi)).toUpperCase()
     const params = semi === -1 ? "" : namePart.slice(semi + 1)
-    current[name] = { params, value }
+    if (name === "EXDATE") current.exDates.push({ params, value })
+    else if (name === "RDATE") current.rDates.push({ params, value })
+    else current.fields[name] = { params, value }
   }
 
-  return events
+  return vevents
+}
+
+function shiftDate(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number)
+  return formatYmd(addDaysToYmd({ year, month, day }, days))
+}
+
+function daysBetween(from: string, to: string): number {
+  return (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000
+}
+
+function occurrenceKey(at: LocalDateTime): string {
+  return `${at.date}|${at.time ?? ""}`
+}
+
+/** Every local date/time in a (possibly comma-separated) EXDATE / RDATE list */
+function parseDateList(
+  properties: ICalProperty[],
+  timeZone: string,
+): LocalDateTime[] {
+  return properties.flatMap(({ params, value }) =>
+    // VALUE=PERIOD RDATEs carry explicit ends we don't model; skip them
+    /VALUE=PERIOD/i.test(params)
+      ? []
+      : value
+          .split(",")
+          .map((v) => parseICalDateTime(params, v.trim(), timeZone))
+          .filter((at): at is LocalDateTime => at !== null),
+  )
+}
+
+/**
+ * A recurring VEVENT's occurrences through `until`. The rule is expanded in
+ * DTSTART's own frame: wall-clock dates for TZID / floating / all-day
+ * starts, so a 7pm series stays at 7pm across DST; UTC dates for a `Z`
+ * start, converted per occurrence, so its local time moves with DST the
+ * way the publisher's calendar shows it.
+ */
+function expandOccurrences(
+  vevent: VEvent,
+  first: ICalEvent,
+  timeZone: string,
+  until: string | null,
+  overridden: Set<string> | undefined,
+): ICalEvent[] {
+  const dtStart = vevent.fields["DTSTART"]
+  const dtEnd = vevent.fields["DTEND"]
+  const utcStart = parseUtcInstant(dtStart.value)
+  const utcEnd = dtEnd ? parseUtcInstant(dtEnd.value) : null
+
+  const frameStart: LocalDateTime = utcStart
+    ? {
+        date: utcStart.toISOString().slice(0, 10),
+        time: utcStart.toISOString().slice(11, 19),
+      }
+    : { date: first.date, time: first.startTime }
+
+  const shifted = (days: number): ICalEvent => {
+    if (!utcStart) {
+      return {
+        ...first,
+        date: shiftDate(first.date, days),
+        endDate: shiftDate(first.endDate, days),
+      }
+    }
+    const start = utcInstantToLocal(
+      new Date(utcStart.getTime() + days * 86_400_000),
+      timeZone,
+    )
+    const end = utcEnd
+      ? utcInstantToLocal(new Date(utcEnd.getTime() + days * 86_400_000), timeZone)
+      : null
+    return {
+      ...first,
+      date: start.date,
+      startTime: start.time,
+      endDate: end?.date ?? shiftDate(first.endDate, daysBetween(first.date, start.date)),
+      endTime: end?.time ?? first.endTime,
+    }
+  }
+
+  const occurrences: ICalEvent[] = []
+  const rule = vevent.fields["RRULE"]
+    ? parseRRule(vevent.fields["RRULE"].value)
+    : null
+  if (rule) {
+    // UNTIL is UTC whenever DTSTART is, so it's compared in the same frame
+    const ruleUntil = rule.until
+      ? utcStart
+        ? {
+            date: `${rule.until.slice(0, 4)}-${rule.until.slice(4, 6)}-${rule.until.slice(6, 8)}`,
+            time: rule.until.match(/T(\d{2})(\d{2})(\d{2})/)?.slice(1).join(":") ?? null,
+          }
+        : parseICalDateTime("", rule.until, timeZone)
+      : null
+    // A UTC date can run a day past the local one (west of Greenwich)
+    const horizon = until && utcStart ? shiftDate(until, 1) : until
+    const last = [ruleUntil?.date, horizon]
+      .filter((d): d is string => !!d)
+      .sort()[0]
+
+    for (const date of expandRRule(rule, frameStart.date, last ?? null)) {
+      if (
+        ruleUntil?.time &&
+        frameStart.time &&
+        date === ruleUntil.date &&
+        frameStart.time > ruleUntil.time
+      ) {
+        continue
+      }
+      occurrences.push(shifted(daysBetween(frameStart.date, date)))
+    }
+  } else {
+    occurrences.push(first)
+  }
+
+  for (const at of parseDateList(vevent.rDates, timeZone)) {
+    if (until && at.date > until) continue
+    occurrences.push({
+      ...first,
+      date: at.date,
+      endDate: shiftDate(first.endDate, daysBetween(first.date, at.date)),
+      startTime: at.time ?? first.startTime,
+      // A different start time leaves DTEND's end time meaningless
+      endTime: at.time && at.time !== first.startTime ? null : first.endTime,
+    })
+  }
+
+  const excluded = new Set(
+    parseDateList(vevent.exDates, timeZone).map(occurrenceKey),
+  )
+  const seen = new Set<string>()
+  return occurrences.filter((occurrence) => {
+    const key = occurrenceKey({ date: occurrence.date, time: occurrence.startTime })
+    // Date-only EXDATEs on timed series (seen in hand-edited feeds) drop the day
+    const dayKey = occurrenceKey({ date: occurrence.date, time: null })
+    if (seen.has(key) || excluded.has(key) || excluded.has(dayKey)) return false
+    if (overridden?.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+function parseUtcInstant(value: string): Date | null {
+  const m = value.trim().match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/)
+  return m ? new Date(Date.UTC(+m[1], +m[2] - 1, +m[3], +m[4], +m[5], +m[6])) : null
 }
 
 /** RFC 5545 line unfolding: a leading space/tab continues the prior line. */
@@ -78,7 +301,7 @@ export function unfoldICalLines(raw: string): string[] {
 }
 
 function toEvent(
-  fields: Record<string, { params: string; value: string }>,
+  fields: Record<string, ICalProperty>,
   timeZone: string,
 ): ICalEvent | null {
   const dtStart = fields["DTSTART"]
@@ -92,6 +315,14 @@ function toEvent(
   const end = dtEnd
     ? parseICalDateTime(dtEnd.params, dtEnd.value, timeZone)
     : null
+  const allDay = start.time === null
+
+  // A date-only DTEND is exclusive (RFC 5545 §3.6.1): a one-day event on the
+  // 5th ends on the 6th. Step back a day so endDate is the last day it runs.
+  let endDate = end?.date ?? start.date
+  if (end && end.time === null && end.date > start.date) {
+    endDate = shiftDate(end.date, -1)
+  }
 
   const uid = (fields["UID"]?.value || "").trim()
   const title = unescapeICalText(summary.value).trim()
@@ -107,6 +338,9 @@ function toEvent(
       : null
 
   const eventUrl = fields["URL"]?.value?.trim() || null
+  const description = fields["DESCRIPTION"]
+    ? unescapeICalText(fields["DESCRIPTION"].value).trim() || null
+    : null
 
   const catField = fields["CATEGORIES"]?.value
   const categoriesRaw = catField
@@ -117,13 +351,16 @@ function toEvent(
     uid: uid || `${start.date}-${slugify(title)}`,
     title,
     date: start.date,
-    endDate: end?.date ?? start.date,
+    endDate,
     startTime: start.time,
+    endTime: end?.time ?? null,
+    allDay,
     location: cleanICalLocation(fields["LOCATION"]?.value),
     latitude,
     longitude,
     imageUrl,
     eventUrl,
+    description,
     categoriesRaw,
   }
 }
@@ -132,7 +369,7 @@ export function parseICalDateTime(
   params: string,
   value: string,
   timeZone: string,
-): { date: string; time: string | null } | null {
+): LocalDateTime | null {
   const dateOnly = value.match(/^(\d{4})(\d{2})(\d{2})$/)
   if (dateOnly || /VALUE=DATE\b/i.test(params)) {
     const m = dateOnly ?? value.match(/^(\d{4})(\d{2})(\d{2})/)
@@ -0,0 +1,186 @@
+import { readFileSync } from "node:fs"
+import { logError } from "../log"
+import { StoredEvent } from "../types/event"
+import { ICalEvent, parseICal } from "./ical"
+import {
+  DEFAULT_BROWSER_HEADERS,
+  fetchWithRetry,
+  getDateRangeInTimeZone,
+  sanitizeDescription,
+} from "./shared"
+
+export interface IcsSourceConfig {
+  /** The calendar's .ics export URL */
+  feedUrl: string
+  /** Source id stored on events, e.g. "westfargolibrary.org" */
+  sourceId: string
+  /**
+   * eventId prefix: "wfpl" → "wfpl_<uid>_<date>". The date is part of the
+   * key because recurring entries reuse one UID across dates — otherwise
+   * the upsert collapses every occurrence into one row.
+   */
+  eventIdPrefix: string
+  /** Log label, e.g. "West Fargo Library events fetch" */
+  label: string
+  /** Link for VEVENTs without a URL property (the calendar page) */
+  siteUrl: string
+  /** City stored on every event */
+  defaultCity: string | null
+  /** Location for VEVENTs without one (single-venue calendars) */
+  defaultLocation?: string
+  /** IANA timezone of the calendar (default America/Chicago) */
+  timeZone?: string
+  daysAhead?: number
+  /**
+   * Env var holding a relay URL that replaces feedUrl (for sites whose
+   * firewall blocks our IPs — see infra/*-feed-worker). Read at fetch time
+   * so dotenv has loaded.
+   */
+  envUrlOverride?: string
+  /** Env var holding a local .ics path to parse instead; wins over the relay */
+  envFileOverride?: string
+  /** Request headers (default DEFAULT_BROWSER_HEADERS; {} for undici's UA) */
+  headers?: Record<string, string>
+  /** fetchWithRetry attempts (default 3) */
+  maxAttempts?: number
+  /**
+   * Upstream CATEGORIES values (lowercased) → the raw category name stored,
+   * so a calendar's own vocabulary can reuse names the city taxonomy
+   * already maps. Unlisted values are stored as-is.
+   */
+  categoryMap?: Record<string, string>
+  /** Raw categories for VEVENTs with no CATEGORIES (a brewery → "Food & Drink") */
+  defaultCategories?: string[]
+  /**
+   * VEVENT properties to leave out of the stored event, for feeds whose
+   * CATEGORIES, GEO or ATTACH/IMAGE values are unchecked or wrong
+   */
+  ignore?: ("categories" | "geo" | "image")[]
+  /** VEVENTs whose title matches are dropped (closure notices and the like) */
+  skipTitle?: RegExp
+  /** Link for a VEVENT when the feed's own URL is missing or not the page to use */
+  eventUrl?: (event: ICalEvent) => string | null
+  /** Rewrites hand-typed locations onto one spelling per venue */
+  canonicalizeLocation?: (location: string | null) => string | null
+}
+
+/**
+ * Generic fetcher for any iCalendar (.ics) export — CivicPlus, Google
+ * Calendar embeds, church and brewery calendars — on top of the RFC 5545
+ * parser in ical.ts, so a new ICS source is one config object instead of a
+ * new class.
+ */
+export class IcsFetcher {
+  private readonly timeZone: string
+
+  constructor(private readonly config: IcsSourceConfig) {
+    this.timeZone = config.timeZone ?? "America/Chicago"
+  }
+
+  private async readFeed(): Promise<string> {
+    const { envFileOverride, envUrlOverride } = this.config
+    const file = envFileOverride ? process.env[envFileOverride] : undefined
+    if (file) {
+      console.log(`   Reading iCal from local file: ${file}`)
+      return readFileSync(file, "utf8")
+    }
+
+    const relay = envUrlOverride ? process.env[envUrlOverride] : undefined
+    if (relay) {
+      console.log(`   Fetching iCal via relay: ${relay.split("?")[0]}`)
+    }
+    const response = await fetchWithRetry(
+      relay || this.config.feedUrl,
+      { headers: this.config.headers ?? DEFAULT_BROWSER_HEADERS },
+      this.config.label,
+      this.config.maxAttempts,
+    )
+    return response.text()
+  }
+
+  async fetchEvents(
+    daysAhead: number = this.config.daysAhead ?? 14,
+  ): Promise<ICalEvent[]> {
+    try {
+      const dateRange = getDateRangeInTimeZone(daysAhead, this.timeZone)
+
+      console.log(
+        `   Date range (${this.timeZone}): ${dateRange.startDateStr} to ${dateRange.endDateStr}`,
+      )
+
+      const parsed = parseICal(await this.readFeed(), this.timeZone, {
+        until: dateRange.endDateStr,
+      })
+
+      // Feeds often expand recurring events far into the future; keep only
+      // the window we care about (inclusive, lexicographic on YYYY-MM-DD).
+      const inWindow = parsed.filter(
+        (e) =>
+          e.date >= dateRange.startDateStr && e.date <= dateRange.endDateStr,
+      )
+      const { skipTitle } = this.config
+      const events = skipTitle
+        ? inWindow.filter((e) => !skipTitle.test(e.title.trim()))
+        : inWindow
+
+      console.log(
+        `   Parsed ${parsed.length} occurrences, ${inWindow.length} in window` +
+          (skipTitle ? `, ${events.length} after skipped titles` : ""),
+      )
+
+      return events
+    } catch (error) {
+      logError(`Error in ${this.config.label}:`, error)
+      throw error
+    }
+  }
+
+  private categoryNames(event: ICalEvent): string[] {
+    const { categoryMap, defaultCategories = [], ignore } = this.config
+    if (!event.categoriesRaw.length || ignore?.includes("categories")) {
+      return defaultCategories
+    }
+    return event.categoriesRaw.map(
+      (name) => categoryMap?.[name.toLowerCase()] ?? name,
+    )
+  }
+
+  transformToStoredEvent(
+    event: ICalEvent,
+  ): Omit<StoredEvent, "id" | "createdAt" | "updatedAt"> {
+    const location = event.location ?? this.config.defaultLocation ?? null
+    const categories = this.categoryNames(event).map((name) => ({
+      catName: name,
+      catId: name,
+    }))
+    const ignore = new Set(this.config.ignore)
+
+    return {
+      eventId: `${this.config.eventIdPrefix}_${event.uid}_${event.date}`,
+      title: event.title,
+      url:
+        this.config.eventUrl?.(event) ?? event.eventUrl ?? this.config.siteUrl,
+      location: this.config.canonicalizeLocation
+        ? this.config.canonicalizeLocation(location)
+        : location,
+      date: event.date,
+      startTime: event.startTime,
+      endTime: event.endTime,
+      allDay: event.allDay,
+      startDate: event.date,
+      endDate: event.endDate,
+      latitude: ignore.has("geo") ? null : event.latitude,
+      longitude: ignore.has("geo") ? null : event.longitude,
+      city: this.config.defaultCity,
+      imageUrl: ignore.has("image") ? null : event.imageUrl,
+      ...sanitizeDescription(event.description),
+      priceType: null,
+      priceMin: null,
+      priceMax: null,
+      ticketUrl: null,
+      audience: null,
+      categories: JSON.stringify(categories),
+      source: this.config.sourceId,
+    }
+  }
+}
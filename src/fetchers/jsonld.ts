@@ -0,0 +1,459 @@
+import { decodeHtmlEntities } from "../dedup/normalize"
+import { logError } from "../log"
+import { StoredEvent } from "../types/event"
+import {
+  DEFAULT_BROWSER_HEADERS,
+  ParsedCost,
+  fetchWithRetry,
+  getDateRangeInTimeZone,
+  priceFromValues,
+  sanitizeDescription,
+  slugify,
+  utcInstantToLocal,
+} from "./shared"
+
+export interface JsonLdSourceConfig {
+  /** Page(s) whose `application/ld+json` blocks list the events */
+  listingUrls: string[]
+  /** Source id stored on events, e.g. "example-hall.com" */
+  sourceId: string
+  /** eventId prefix: "exhall" → "exhall_<url slug>_<date>" */
+  eventIdPrefix: string
+  /** Log label, e.g. "Example Hall events fetch" */
+  label: string
+  /** City for events whose address has no addressLocality */
+  defaultCity: string | null
+  /** Location for events without one (single-venue sites) */
+  defaultLocation?: string
+  /** IANA timezone for start/end values without an offset (default America/Chicago) */
+  timeZone?: string
+  daysAhead?: number
+  /**
+   * Links on the listing page(s) to open for their own JSON-LD, for sites
+   * whose listing carries only names and links (or nothing) and puts the
+   * Event node on each detail page. Matched against absolute hrefs.
+   */
+  detailLinks?: RegExp
+  /** Cap on detail pages fetched per run (default 40) */
+  maxDetailPages?: number
+  /** Request headers (default DEFAULT_BROWSER_HEADERS with an HTML Accept) */
+  headers?: Record<string, string>
+  /** fetchWithRetry attempts (default 3) */
+  maxAttempts?: number
+  /**
+   * schema.org type → the raw category name stored ("MusicEvent" →
+   * "Music"), for names the city taxonomy already maps. Types not listed
+   * fall back to defaultCategories.
+   */
+  categoryMap?: Record<string, string>
+  /** Raw categories for events whose type isn't in categoryMap */
+  defaultCategories?: string[]
+  /** Events whose name matches are dropped */
+  skipTitle?: RegExp
+  /** Rewrites location strings onto one spelling per venue */
+  canonicalizeLocation?: (location: string | null) => string | null
+}
+
+/** One schema.org Event node, reduced to the fields the fetcher stores. */
+export interface JsonLdEvent {
+  /** schema.org @type values, e.g. ["MusicEvent"] */
+  types: string[]
+  title: string
+  /** The node's url, else the page it was found on */
+  url: string
+  /** Local wall-clock date, YYYY-MM-DD */
+  date: string
+  /** Local end date (inclusive), YYYY-MM-DD */
+  endDate: string
+  /** Local wall-clock start, HH:MM:SS, or null when startDate is a bare date */
+  startTime: string | null
+  endTime: string | null
+  /** "Place name, street address" */
+  location: string | null
+  /** address.addressLocality, when given */
+  city: string | null
+  latitude: number | null
+  longitude: number | null
+  imageUrl: string | null
+  description: string | null
+  price: ParsedCost
+  /** offers.url, when given */
+  ticketUrl: string | null
+}
+
+/** schema.org Event and the subtypes venue sites commonly use */
+const EVENT_TYPES = new Set([
+  "Event",
+  "MusicEvent",
+  "TheaterEvent",
+  "ComedyEvent",
+  "DanceEvent",
+  "ChildrensEvent",
+  "EducationEvent",
+  "ExhibitionEvent",
+  "Festival",
+  "FoodEvent",
+  "LiteraryEvent",
+  "ScreeningEvent",
+  "SocialEvent",
+  "SportsEvent",
+])
+
+/** eventStatus values whose listed date no longer happens */
+const DROPPED_STATUSES = /(EventCancelled|EventPostponed)$/
+
+type JsonObject = Record<string, unknown>
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+function asArray(value: unknown): unknown[] {
+  if (value === undefined || value === null) return []
+  return Array.isArray(value) ? value : [value]
+}
+
+function text(value: unknown): string | null {
+  if (typeof value === "number") return String(value)
+  if (typeof value !== "string") return null
+  const cleaned = decodeHtmlEntities(value)
+    .replace(/<[^>]+>/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+  return cleaned || null
+}
+
+function typesOf(node: JsonObject): string[] {
+  // "@type" may be "MusicEvent", ["Event", "MusicEvent"] or a full IRI
+  return asArray(node["@type"])
+    .filter((t): t is string => typeof t === "string")
+    .map((t) => t.replace(/^https?:\/\/schema\.org\//, ""))
+}
+
+/**
+ * Every Event node in a page's `<script type="application/ld+json">`
+ * blocks: top-level objects, arrays, `@graph` containers and an event's
+ * own `subEvent`s (festival line-ups). Blocks that don't parse are
+ * skipped — CMS plugins sometimes emit trailing commas or raw newlines.
+ */
+export function extractJsonLdEvents(html: string): JsonObject[] {
+  const events: JsonObject[] = []
+  const visit = (node: unknown) => {
+    if (Array.isArray(node)) return node.forEach(visit)
+    if (!isObject(node)) return
+    if (typesOf(node).some((t) => EVENT_TYPES.has(t))) {
+      events.push(node)
+      asArray(node.subEvent).forEach(visit)
+      return
+    }
+    asArray(node["@graph"]).forEach(visit)
+    asArray(node.itemListElement).forEach((item) =>
+      visit(isObject(item) && item.item ? item.item : item),
+    )
+  }
+
+  const blocks = html.matchAll(
+    /<script[^>]*type\s*=\s*["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi,
+  )
+  for (const [, body] of blocks) {
+    try {
+      visit(JSON.parse(body.replace(/^\s*<!\[CDATA\[|\]\]>\s*$/g, "")))
+    } catch {
+      continue
+    }
+  }
+  return events
+}
+
+/**
+ * schema.org date/time → local wall clock. "2026-10-21" is a bare date;
+ * "2026-10-21T19:30:00-05:00" / "…Z" is an instant converted to the city
+ * timezone; "2026-10-21T19:30" without an offset is already local.
+ */
+function parseSchemaDate(
+  value: unknown,
+  timeZone: string,
+): { date: string; time: string | null } | null {
+  if (typeof value !== "string") return null
+  const m = value
+    .trim()
+    .match(/^(\d{4}-\d{2}-\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?(Z|[+-]\d{2}:?\d{2})?)?$/)
+  if (!m) return null
+  const [, date, hour, minute, second = "00", offset] = m
+  if (!hour) return { date, time: null }
+  if (offset) {
+    const at = new Date(value.trim().replace(" ", "T"))
+    if (Number.isNaN(at.getTime())) return null
+    return utcInstantToLocal(at, timeZone)
+  }
+  return { date, time: `${hour}:${minute}:${second}` }
+}
+
+function placeOf(location: unknown): JsonObject | null {
+  return (asArray(location).find(isObject) as JsonObject | undefined) ?? null
+}
+
+function locationText(location: unknown): string | null {
+  const place = placeOf(location)
+  if (!place) {
+    return text(asArray(location).find((l) => typeof l === "string"))
+  }
+  if (typesOf(place).includes("VirtualLocation")) return "Online"
+  const address = place.address
+  const street = isObject(address) ? text(address.streetAddress) : text(address)
+  const name = text(place.name)
+  const parts = [name, street].filter((p): p is string => !!p)
+  // Sites often repeat the street as the name
+  if (parts.length === 2 && parts[0] === parts[1]) parts.pop()
+  return parts.length ? parts.join(", ") : null
+}
+
+function imageOf(image: unknown): string | null {
+  for (const entry of asArray(image)) {
+    const url = isObject(entry) ? entry.url ?? entry.contentUrl : entry
+    if (typeof url === "string" && /^https?:\/\//.test(url)) return url
+  }
+  return null
+}
+
+function coordinate(value: unknown): number | null {
+  const n = typeof value === "number" ? value : parseFloat(String(value))
+  return Number.isFinite(n) && n !== 0 ? n : null
+}
+
+/**
+ * offers → price and ticket link. Offer.price or AggregateOffer's
+ * lowPrice/highPrice; an offer without a numeric price ("TBA") is
+ * "see-site", and no offers at all says nothing.
+ */
+function offersOf(offers: unknown): { price: ParsedCost; ticketUrl: string | null } {
+  const list = asArray(offers).filter(isObject)
+  if (!list.length) {
+    return {
+      price: { priceType: null, priceMin: null, priceMax: null },
+      ticketUrl: null,
+    }
+  }
+  const values = list
+    .flatMap((offer) => [offer.price, offer.lowPrice, offer.highPrice])
+    .map((price) =>
+      typeof price === "number"
+        ? price
+        : /^\s*free\s*$/i.test(String(price ?? ""))
+          ? 0
+          : parseFloat(String(price ?? "").replace(/[$,]/g, "")),
+    )
+    .filter((n) => Number.isFinite(n))
+  const ticketUrl = list
+    .map((offer) => offer.url)
+    .find((url): url is string => typeof url === "string" && /^https?:\/\//.test(url))
+  return { price: priceFromValues(values), ticketUrl: ticketUrl ?? null }
+}
+
+/**
+ * Generic fetcher for venue sites that embed schema.org Event JSON-LD but
+ * have no API (the structured-data markup search engines read), so a new
+ * site is one config object instead of a bespoke HTML scraper.
+ */
+export class JsonLdFetcher {
+  private readonly timeZone: string
+
+  constructor(private readonly config: JsonLdSourceConfig) {
+    this.timeZone = config.timeZone ?? "America/Chicago"
+  }
+
+  private async readPage(url: string): Promise<string> {
+    const response = await fetchWithRetry(
+      url,
+      {
+        headers: this.config.headers ?? {
+          ...DEFAULT_BROWSER_HEADERS,
+          Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
+          Referer: new URL(url).origin + "/",
+          Origin: new URL(url).origin,
+        },
+      },
+      this.config.label,
+      this.config.maxAttempts,
+    )
+    return response.text()
+  }
+
+  /** Absolute hrefs on a listing page matching config.detailLinks, in page order */
+  private detailUrls(html: string, pageUrl: string): string[] {
+    const { detailLinks } = this.config
+    if (!detailLinks) return []
+    const urls = new Set<string>()
+    for (const [, href] of html.matchAll(/<a\b[^>]*href\s*=\s*["']([^"'#]+)/gi)) {
+      try {
+        const url = new URL(decodeHtmlEntities(href), pageUrl).href
+        if (detailLinks.test(url)) urls.add(url)
+      } catch {
+        continue
+      }
+    }
+    return [...urls]
+  }
+
+  async fetchEvents(
+    daysAhead: number = this.config.daysAhead ?? 14,
+  ): Promise<JsonLdEvent[]> {
+    try {
+      const dateRange = getDateRangeInTimeZone(daysAhead, this.timeZone)
+
+      console.log(
+        `   Date range (${this.timeZone}): ${dateRange.startDateStr} to ${dateRange.endDateStr}`,
+      )
+
+      const nodes: { node: JsonObject; pageUrl: string }[] = []
+      const detailUrls = new Set<string>()
+      for (const listingUrl of this.config.listingUrls) {
+        const html = await this.readPage(listingUrl)
+        for (const node of extractJsonLdEvents(html)) {
+          nodes.push({ node, pageUrl: listingUrl })
+        }
+        this.detailUrls(html, listingUrl).forEach((url) => detailUrls.add(url))
+      }
+
+      const maxDetailPages = this.config.maxDetailPages ?? 40
+      const details = [...detailUrls].slice(0, maxDetailPages)
+      if (detailUrls.size > details.length) {
+        console.warn(
+          `⚠️ ${this.config.label}: ${detailUrls.size} detail pages, reading the first ${details.length}`,
+        )
+      }
+      for (const url of details) {
+        // One broken detail page shouldn't cost the rest of the listing
+        try {
+          for (const node of extractJsonLdEvents(await this.readPage(url))) {
+            nodes.push({ node, pageUrl: url })
+          }
+        } catch (error) {
+          logError(`${this.config.label}: skipping ${url}:`, error)
+        }
+      }
+
+      // Listing and detail pages often describe the same event; the later
+      // (detail) node wins, being the fuller one
+      const byKey = new Map<string, JsonLdEvent>()
+      let dropped = 0
+      for (const { node, pageUrl } of nodes) {
+        if (DROPPED_STATUSES.test(String(node.eventStatus ?? ""))) {
+          dropped++
+          continue
+        }
+        const event = this.toEvent(node, pageUrl)
+        if (event) byKey.set(`${event.title}|${event.date}|${event.startTime}`, event)
+      }
+
+      const { skipTitle } = this.config
+      const events = [...byKey.values()].filter(
+        (e) =>
+          e.endDate >= dateRange.startDateStr &&
+          e.date <= dateRange.endDateStr &&
+          !skipTitle?.test(e.title),
+      )
+
+      console.log(
+        `   Parsed ${nodes.length} JSON-LD events from ${this.config.listingUrls.length + details.length} pages, ` +
+          `${events.length} in window` +
+          (dropped ? `, ${dropped} cancelled/postponed dropped` : ""),
+      )
+
+      return events
+    } catch (error) {
+      logError(`Error in ${this.config.label}:`, error)
+      throw error
+    }
+  }
+
+  private toEvent(node: JsonObject, pageUrl: string): JsonLdEvent | null {
+    const title = text(node.name)
+    const start = parseSchemaDate(node.startDate, this.timeZone)
+    if (!title || !start) return null
+    const end = parseSchemaDate(node.endDate, this.timeZone)
+    const endsAfterStart = end && end.date >= start.date
+
+    const place = placeOf(node.location)
+    const address = place && isObject(place.address) ? place.address : null
+    const geo = place && isObject(place.geo) ? place.geo : null
+    const url = typeof node.url === "string" && /^https?:\/\//.test(node.url)
+      ? node.url
+      : pageUrl
+
+    return {
+      types: typesOf(node),
+      title,
+      url,
+      date: start.date,
+      endDate: endsAfterStart ? end.date : start.date,
+      startTime: start.time,
+      endTime: endsAfterStart ? end.time : null,
+      location: locationText(node.location),
+      city: address ? text(address.addressLocality) : null,
+      latitude: geo ? coordinate(geo.latitude) : null,
+      longitude: geo ? coordinate(geo.longitude) : null,
+      imageUrl: imageOf(node.image),
+      description: typeof node.description === "string" ? node.description : null,
+      ...offersOf(node.offers),
+    }
+  }
+
+  private categoryNames(event: JsonLdEvent): string[] {
+    const { categoryMap = {}, defaultCategories = [] } = this.config
+    const mapped = event.types
+      .map((type) => categoryMap[type])
+      .filter((name): name is string => !!name)
+    return mapped.length ? mapped : defaultCategories
+  }
+
+  transformToStoredEvent(
+    event: JsonLdEvent,
+  ): Omit<StoredEvent, "id" | "createdAt" | "updatedAt"> {
+    const location = event.location ?? this.config.defaultLocation ?? null
+    const categories = this.categoryNames(event).map((name) => ({
+      catName: name,
+      catId: name,
+    }))
+    // Events without their own url share the listing's, so key on the
+    // title. The query string is part of the key (`/event?id=42`), and so
+    // is the start time, for a matinee and an evening show on one page.
+    const url = new URL(event.url)
+    const slug =
+      (!this.config.listingUrls.includes(event.url) &&
+        slugify(
+          `${url.pathname.split("/").filter(Boolean).pop() ?? ""} ${url.search}`,
+          120,
+        )) ||
+      slugify(event.title)
+    const time = event.startTime
+      ? `_${event.startTime.slice(0, 5).replace(":", "")}`
+      : ""
+
+    return {
+      eventId: `${this.config.eventIdPrefix}_${slug}_${event.date}${time}`,
+      title: event.title,
+      url: event.url,
+      location: this.config.canonicalizeLocation
+        ? this.config.canonicalizeLocation(location)
+        : location,
+      date: event.date,
+      startTime: event.startTime,
+      endTime: event.endTime,
+      // schema.org has no all-day flag; a date-only startDate is the signal
+      allDay: event.startTime === null,
+      startDate: event.date,
+      endDate: event.endDate,
+      latitude: event.latitude,
+      longitude: event.longitude,
+      city: event.city ?? this.config.defaultCity,
+      imageUrl: event.imageUrl,
+      ...sanitizeDescription(event.description),
+      ...event.price,
+      ticketUrl: event.ticketUrl,
+      audience: null,
+      categories: JSON.stringify(categories),
+      source: this.config.sourceId,
+    }
+  }
+}
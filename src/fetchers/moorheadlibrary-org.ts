@@ -1,6 +1,11 @@
+import { matchAudience, serializeAudience } from "../enrichment/audience"
 import { logError } from "../log"
 import { StoredEvent } from "../types/event"
-import { fetchWithRetry, getDateRangeInTimeZone } from "./shared"
+import {
+  fetchWithRetry,
+  getDateRangeInTimeZone,
+  sanitizeDescription,
+} from "./shared"
 
 export interface MoorheadLibraryEvent {
   id: string
@@ -13,6 +18,8 @@ export interface MoorheadLibraryEvent {
   url: string
   private_event: string // "0" | "1"
   event_type: string // "INPERSON" | "VIRTUAL" | ...
+  /** HTML event description */
+  description?: string
   tagsArray?: string[]
   agesArray?: string[]
 }
@@ -123,9 +130,11 @@ export class MoorheadLibraryFetcher {
     // event_start is "YYYY-MM-DD HH:MM:SS" in the library's local wall time;
     // keep the parts verbatim so a VPS in another tz doesn't shift the day.
     const [startDate, startClock] = event.event_start.split(" ")
-    const [endDate] = (event.event_end || event.event_start).split(" ")
+    const [endDate, endClock] = (event.event_end || event.event_start).split(" ")
     const startTime =
       startClock && startClock !== "00:00:00" ? startClock : null
+    const endTime =
+      event.event_end && endClock && endClock !== "00:00:00" ? endClock : null
 
     const categories = (event.tagsArray ?? [])
       .filter(Boolean)
@@ -144,12 +153,20 @@ export class MoorheadLibraryFetcher {
       location: this.venue,
       date: startDate,
       startTime,
+      endTime,
+      allDay: false,
       startDate,
       endDate,
       latitude: this.latitude,
       longitude: this.longitude,
       city: "Moorhead",
       imageUrl: null,
+      ...sanitizeDescription(event.description),
+      priceType: null,
+      priceMin: null,
+      priceMax: null,
+      ticketUrl: null,
+      audience: serializeAudience(matchAudience(event.agesArray ?? [])),
       categories: JSON.stringify(categories),
       source: "larl.org",
     }
@@ -4,6 +4,7 @@ import {
   DEFAULT_BROWSER_HEADERS,
   fetchWithRetry,
   getDateRangeInTimeZone,
+  sanitizeDescription,
   utcInstantToLocal,
 } from "./shared"
 
@@ -18,6 +19,8 @@ export interface MyNdsuEvent {
   longitude: string | number | null
   categoryNames: string[]
   imagePath: string | null
+  /** HTML description written by the hosting org */
+  description: string | null
 }
 
 /**
@@ -98,12 +101,20 @@ export class MyNdsuFetcher {
       location: event.location?.trim() || null,
       date: start.date,
       startTime: start.time,
+      endTime: event.endsOn ? end.time : null,
+      allDay: false,
       startDate: start.date,
       endDate: end.date,
       latitude: Number.isFinite(latitude) ? latitude : null,
       longitude: Number.isFinite(longitude) ? longitude : null,
       city: "Fargo",
       imageUrl,
+      ...sanitizeDescription(event.description),
+      priceType: null,
+      priceMin: null,
+      priceMax: null,
+      ticketUrl: null,
+      audience: null,
       categories: JSON.stringify(
         (event.categoryNames ?? []).map((name) => ({ catName: name })),
       ),
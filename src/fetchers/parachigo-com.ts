@@ -1,6 +1,12 @@
 import { logError } from "../log"
 import { StoredEvent } from "../types/event"
-import { fetchWithRetry, formatYmd, getDatePartsInTimeZone } from "./shared"
+import {
+  fetchWithRetry,
+  formatYmd,
+  getDatePartsInTimeZone,
+  priceFromValues,
+  sanitizeDescription,
+} from "./shared"
 
 /**
  * Parachigo (14 8th St S, Fargo) is a DIY music/arts venue. Its site
@@ -81,6 +87,10 @@ interface SquareProduct {
   product_type?: string
   absolute_site_link?: string
   site_link?: string
+  /** Product page blurb (HTML) */
+  short_description?: string | null
+  /** Ticket price range across variations, in dollars */
+  price?: { low?: number | null; high?: number | null } | null
   product_type_details?: {
     start_date?: string | null
     start_time?: string | null
@@ -196,12 +206,23 @@ export class ParachigoFetcher {
       location: venue.location,
       date,
       startTime: parseEventTime(product.product_type_details?.start_time),
+      endTime: null,
+      allDay: false,
       startDate: date,
       endDate: date,
       latitude: venue.latitude,
       longitude: venue.longitude,
       city: venue.city,
       imageUrl: null,
+      ...sanitizeDescription(product.short_description),
+      // The product page is the checkout, so it doubles as the ticket link.
+      ...priceFromValues(
+        [product.price?.low, product.price?.high].filter(
+          (n): n is number => typeof n === "number",
+        ),
+      ),
+      ticketUrl: url,
+      audience: null,
       categories: JSON.stringify([
         { catName: categorize(product.name), catId: categorize(product.name) },
       ]),
@@ -223,12 +244,23 @@ export class ParachigoFetcher {
       location: e.venue.location,
       date: e.date,
       startTime: e.startTime,
+      endTime: null,
+      allDay: false,
       startDate: e.date,
       endDate: e.date,
       latitude: e.venue.latitude,
       longitude: e.venue.longitude,
       city: e.venue.city,
       imageUrl: null,
+      description: null,
+      descriptionHtml: null,
+      // No ticket product to read a price from, and a flyer isn't proof
+      // of free entry — leave the cost unknown rather than claim "free".
+      priceType: null,
+      priceMin: null,
+      priceMax: null,
+      ticketUrl: null,
+      audience: null,
       categories: JSON.stringify([
         { catName: categorize(e.title), catId: categorize(e.title) },
       ]),
@@ -1,6 +1,10 @@
+import { getActiveCity } from "../cities"
 import { getActiveCityFetchFns } from "../cities/fetchers"
 import { FetchedEvent } from "../cities/types"
 import { findMatches, findSelfMatches, MatchScore } from "../dedup/matcher"
+import { BlockingStats } from "../dedup/blocking"
+import { applyMatchOverrides } from "../dedup/overrides"
+import { resolveMatchTuning } from "../dedup/tuning"
 import { EventDatabase } from "../db/database"
 import { logError } from "../log"
 import { StoredEvent } from "../types/event"
@@ -49,8 +53,9 @@ export interface SourceRunResult {
  *
  * Non-force (weekly cron): skips sources already fetched today; on error the
  * existing cached rows are kept. Force (refetch): fetches first and only
- * deletes the old rows once the fetch succeeded, so a failed fetch never
- * loses data.
+ * drops the source's rows the fetch no longer returned once it succeeded, so
+ * a failed fetch never loses data. Rows it did return are upserted like any
+ * fetch, so their changes still land in event_changes.
  */
 export async function runSource(
   db: EventDatabase,
@@ -91,11 +96,14 @@ export async function runSource(
     const events = await def.fetch()
     console.log(`✓ Fetched ${events.length} events`)
 
-    if (opts.force) {
-      db.deleteEventsBySource(def.source)
-    }
     for (const event of events) {
-      db.insertEvent(event)
+      db.insertEvent(event, startedAtUtc)
+    }
+    if (opts.force) {
+      db.pruneEventsBySource(
+        def.source,
+        new Set(events.map((event) => event.eventId)),
+      )
     }
     db.setSourceLastUpdatedDate(def.source, opts.today)
     console.log(`✓ Processed ${events.length} events\n`)
@@ -128,31 +136,59 @@ export async function runSource(
   }
 }
 
+export interface MatchPassTiming {
+  /** "a ↔ b" for a cross-source pass, the source alone for its self-match pass */
+  label: string
+  durationMs: number
+  /** Cross-source passes: pairs scored after blocking vs without it */
+  stats?: BlockingStats
+}
+
 /**
  * Score duplicate matches across all sources: every cross-source pair among
  * the general (non-sports) sources, ordered so the lower-dedupPriority
- * source is the dropped side, plus a same-source pass per source.
+ * source is the dropped side, plus a same-source pass per source. Weights
+ * and thresholds come from the city's matchTuning for each pair. Manual
+ * overrides (`npm run match`) are applied last, so they survive re-dedup.
+ * Pass `timings` to collect per-pass durations (`npm run dedup` prints them).
  */
-export function buildAllMatches(db: EventDatabase): MatchScore[] {
+export function buildAllMatches(
+  db: EventDatabase,
+  timings?: MatchPassTiming[],
+): MatchScore[] {
   const storedBySource = new Map<string, StoredEvent[]>()
   for (const def of SOURCES) {
     storedBySource.set(def.source, db.getEventsBySource(def.source))
   }
 
   const matches: MatchScore[] = []
+  const tuningFor = (sourceA: string, sourceB?: string) =>
+    resolveMatchTuning(getActiveCity().matchTuning, sourceA, sourceB)
+  const utcSources = new Set(
+    SOURCES.filter((def) => def.publishesUtc).map((def) => def.source),
+  )
+  const timeZone = getActiveCity().timeZone
 
   const general = SOURCES.filter((def) => !def.sports).sort(
     (a, b) => a.dedupPriority - b.dedupPriority,
   )
   for (let i = 0; i < general.length; i++) {
     for (let j = i + 1; j < general.length; j++) {
+      const startedAt = performance.now()
+      const stats: BlockingStats = { pairs: 0, scored: 0 }
       matches.push(
         ...findMatches(
           storedBySource.get(general[i].source)!,
           storedBySource.get(general[j].source)!,
-          0.65,
+          tuningFor(general[i].source, general[j].source),
+          { stats, utcSources, timeZone },
         ),
       )
+      timings?.push({
+        label: `${general[i].source} ↔ ${general[j].source}`,
+        durationMs: performance.now() - startedAt,
+        stats,
+      })
     }
   }
 
@@ -160,14 +196,28 @@ export function buildAllMatches(db: EventDatabase): MatchScore[] {
   // so they only self-match — and only on identical URLs, since fuzzy
   // scoring can't tell doubleheaders from reposts.
   for (const def of SOURCES) {
+    const startedAt = performance.now()
     matches.push(
       ...findSelfMatches(storedBySource.get(def.source)!, {
         urlOnly: def.sports,
+        tuning: tuningFor(def.source),
       }),
     )
+    timings?.push({
+      label: def.source,
+      durationMs: performance.now() - startedAt,
+    })
   }
 
-  return matches
+  const priorityBySource = new Map(
+    SOURCES.map((def) => [def.source, def.dedupPriority]),
+  )
+  return applyMatchOverrides(
+    matches,
+    db.getMatchOverrides(),
+    [...storedBySource.values()].flat(),
+    (source) => priorityBySource.get(source) ?? 0,
+  )
 }
 
 export function persistMatches(
@@ -183,7 +233,11 @@ export function persistMatches(
       score: match.totalScore,
       confidence: match.confidence,
       reasons: match.reasons,
-      matchType: "auto",
+      matchType: match.matchType ?? "auto",
+      titleScore: match.titleScore,
+      venueScore: match.venueScore,
+      timeScore: match.timeScore,
+      geoScore: match.geoScore,
     })
     byConfidence[match.confidence]++
   }
@@ -0,0 +1,222 @@
+/**
+ * RFC 5545 RRULE expansion over calendar dates. Rules here never carry
+ * BYHOUR/BYMINUTE, so an occurrence is the DTSTART's time of day on each
+ * generated date; ical.ts decides which frame the dates live in (local wall
+ * clock, or UTC for a `Z` DTSTART) and converts them.
+ */
+
+export type RRuleFreq = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY"
+
+export interface RRuleByDay {
+  /** 0 = Sunday … 6 = Saturday */
+  weekday: number
+  /** 2 = 2nd, -1 = last in the month; null = every such weekday */
+  nth: number | null
+}
+
+export interface RRule {
+  freq: RRuleFreq
+  interval: number
+  count: number | null
+  /** Raw UNTIL value (YYYYMMDD or YYYYMMDDThhmmss[Z]), converted by the caller */
+  until: string | null
+  byDay: RRuleByDay[]
+  byMonthDay: number[]
+  byMonth: number[]
+}
+
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"]
+const FREQS: RRuleFreq[] = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"]
+
+/**
+ * Bounds for rules that neither UNTIL nor a horizon ends (COUNT alone may
+ * never be reached). With an end date, a series that started years ago
+ * still expands all the way to it.
+ */
+const MAX_OCCURRENCES = 1000
+const MAX_PERIODS = 10_000
+
+/** Parse an RRULE value; null for frequencies we don't expand (HOURLY etc.). */
+export function parseRRule(value: string): RRule | null {
+  const parts = new Map<string, string>()
+  for (const part of value.split(";")) {
+    const eq = part.indexOf("=")
+    if (eq > 0) parts.set(part.slice(0, eq).toUpperCase(), part.slice(eq + 1))
+  }
+
+  const freq = parts.get("FREQ")?.toUpperCase() as RRuleFreq | undefined
+  if (!freq || !FREQS.includes(freq)) return null
+
+  const numbers = (key: string) =>
+    (parts.get(key) ?? "")
+      .split(",")
+      .map(Number)
+      .filter((n) => Number.isInteger(n) && n !== 0)
+
+  const byDay: RRuleByDay[] = []
+  for (const code of (parts.get("BYDAY") ?? "").split(",")) {
+    const m = code.trim().toUpperCase().match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/)
+    if (!m) continue
+    byDay.push({
+      weekday: WEEKDAY_CODES.indexOf(m[2]),
+      nth: m[1] ? Number(m[1]) : null,
+    })
+  }
+
+  const interval = Number(parts.get("INTERVAL") ?? 1)
+  const count = parts.has("COUNT") ? Number(parts.get("COUNT")) : null
+  return {
+    freq,
+    interval: Number.isInteger(interval) && interval > 0 ? interval : 1,
+    count: count !== null && Number.isInteger(count) && count > 0 ? count : null,
+    until: parts.get("UNTIL") ?? null,
+    byDay,
+    byMonthDay: numbers("BYMONTHDAY"),
+    byMonth: numbers("BYMONTH").filter((m) => m >= 1 && m <= 12),
+  }
+}
+
+function dayNumber(date: string): number {
+  return (
+    Date.UTC(+date.slice(0, 4), +date.slice(5, 7) - 1, +date.slice(8, 10)) /
+    86_400_000
+  )
+}
+
+function fromDayNumber(day: number): string {
+  return new Date(day * 86_400_000).toISOString().slice(0, 10)
+}
+
+function weekdayOf(day: number): number {
+  // Day 0 (1970-01-01) was a Thursday
+  return (((day + 4) % 7) + 7) % 7
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate()
+}
+
+function firstOfMonth(year: number, month: number): number {
+  return Date.UTC(year, month - 1, 1) / 86_400_000
+}
+
+/**
+ * Dates a rule generates from DTSTART's date (which always comes first and
+ * counts toward COUNT), in order, through `until` (the rule's UNTIL date
+ * and/or the fetch horizon, whichever is earlier; inclusive).
+ */
+export function expandRRule(
+  rule: RRule,
+  start: string,
+  until: string | null,
+): string[] {
+  const startDay = dayNumber(start)
+  const lastDay = until ? dayNumber(until) : Infinity
+  const startYear = +start.slice(0, 4)
+  const startMonth = +start.slice(5, 7)
+  const startDate = +start.slice(8, 10)
+
+  const inByMonth = (day: number) =>
+    !rule.byMonth.length ||
+    rule.byMonth.includes(+fromDayNumber(day).slice(5, 7))
+
+  // BYMONTHDAY / BYDAY (with ordinals) within one month, as day numbers
+  const monthDays = (year: number, month: number): number[] => {
+    const first = firstOfMonth(year, month)
+    const length = daysInMonth(year, month)
+    let dates: number[]
+    if (rule.byMonthDay.length) {
+      dates = rule.byMonthDay
+        .map((d) => (d > 0 ? d : length + d + 1))
+        .filter((d) => d >= 1 && d <= length)
+    } else if (!rule.byDay.length) {
+      dates = startDate <= length ? [startDate] : []
+    } else {
+      dates = Array.from({ length }, (_, i) => i + 1)
+    }
+    if (rule.byDay.length) {
+      const matching = new Set<number>()
+      for (const { weekday, nth } of rule.byDay) {
+        const all = Array.from({ length }, (_, i) => i + 1).filter(
+          (d) => weekdayOf(first + d - 1) === weekday,
+        )
+        const picked =
+          nth === null ? all : [nth > 0 ? all[nth - 1] : all[all.length + nth]]
+        picked.forEach((d) => d !== undefined && matching.add(d))
+      }
+      dates = dates.filter((d) => matching.has(d))
+    }
+    return dates.map((d) => first + d - 1)
+  }
+
+  const periodDays = (k: number): { days: number[]; periodStart: number } => {
+    const step = k * rule.interval
+    switch (rule.freq) {
+      case "DAILY": {
+        // BY* parts only filter here; BYDAY ordinals don't apply to days
+        const day = startDay + step
+        const ymd = fromDayNumber(day)
+        const date = +ymd.slice(8, 10)
+        const length = daysInMonth(+ymd.slice(0, 4), +ymd.slice(5, 7))
+        const keep =
+          inByMonth(day) &&
+          (!rule.byMonthDay.length ||
+            rule.byMonthDay.some((d) => (d > 0 ? d : length + d + 1) === date)) &&
+          (!rule.byDay.length ||
+            rule.byDay.some((b) => b.weekday === weekdayOf(day)))
+        return { days: keep ? [day] : [], periodStart: day }
+      }
+      case "WEEKLY": {
+        // Weeks start on Monday (WKST default)
+        const weekStart = startDay - ((weekdayOf(startDay) + 6) % 7) + step * 7
+        const weekdays = rule.byDay.length
+          ? rule.byDay.map((b) => b.weekday)
+          : [weekdayOf(startDay)]
+        const days = weekdays
+          .map((wd) => weekStart + ((wd + 6) % 7))
+          .filter(inByMonth)
+        return { days, periodStart: weekStart }
+      }
+      case "MONTHLY": {
+        const index = startYear * 12 + startMonth - 1 + step
+        const year = Math.floor(index / 12)
+        const month = (index % 12) + 1
+        const days =
+          rule.byMonth.length && !rule.byMonth.includes(month)
+            ? []
+            : monthDays(year, month)
+        return { days, periodStart: firstOfMonth(year, month) }
+      }
+      case "YEARLY": {
+        const year = startYear + step
+        const months = rule.byMonth.length ? rule.byMonth : [startMonth]
+        return {
+          days: months.flatMap((month) => monthDays(year, month)),
+          periodStart: firstOfMonth(year, 1),
+        }
+      }
+    }
+  }
+
+  const dates = [start]
+  for (let k = 0; ; k++) {
+    // Unbounded rules stop at the caps; a BYMONTH/BYMONTHDAY combination
+    // that never matches (Feb 30th) would otherwise loop forever
+    if (
+      lastDay === Infinity &&
+      (dates.length >= MAX_OCCURRENCES || k >= MAX_PERIODS)
+    ) {
+      break
+    }
+    const { days, periodStart } = periodDays(k)
+    if (periodStart > lastDay) break
+    for (const day of [...new Set(days)].sort((a, b) => a - b)) {
+      if (day <= startDay) continue
+      if (day > lastDay) return dates
+      if (rule.count !== null && dates.length >= rule.count) return dates
+      dates.push(fromDayNumber(day))
+    }
+    if (rule.count !== null && dates.length >= rule.count) break
+  }
+  return dates
+}
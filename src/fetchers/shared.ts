@@ -1,3 +1,6 @@
+import { decodeHtmlEntities } from "../dedup/normalize"
+import { PriceType } from "../types/event"
+
 export interface Ymd {
   year: number
   month: number
@@ -147,6 +150,153 @@ export function slugify(text: string, maxLength: number = 60): string {
     .slice(0, maxLength)
 }
 
+/** Longest plain-text description kept (cut at a word boundary + "…"). */
+const DESCRIPTION_MAX_TEXT = 600
+/** Longer sanitized HTML falls back to the (truncated) plain text. */
+const DESCRIPTION_MAX_HTML = 2000
+/** Tags kept in descriptionHtml; everything else is unwrapped to its text. */
+const DESCRIPTION_TAGS = new Set([
+  "p", "br", "strong", "em", "b", "i", "ul", "ol", "li", "a",
+])
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+}
+
+/** An http(s) href from a tag's attribute text, or null */
+function safeHref(attrs: string): string | null {
+  const m = attrs.match(/\bhref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/i)
+  if (!m) return null
+  const href = decodeHtmlEntities(m[1] ?? m[2] ?? m[3]).trim()
+  return /^https?:\/\/[^\s"'<>]+$/i.test(href) ? href : null
+}
+
+/**
+ * Upstream descriptions arrive as anything from plain text (iCal) to full
+ * WordPress/Simpleview HTML with inline styles, embeds and tracking pixels.
+ * Returns a plain-text version (entities decoded, whitespace collapsed,
+ * truncated) for display/search, plus a short HTML version restricted to a
+ * few formatting tags — attributes are dropped except an http(s) href on
+ * links — so the frontend never renders upstream markup verbatim.
+ */
+export function sanitizeDescription(raw: string | null | undefined): {
+  description: string | null
+  descriptionHtml: string | null
+} {
+  if (!raw || !raw.trim()) {
+    return { description: null, descriptionHtml: null }
+  }
+
+  const cleaned = raw
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<(script|style|iframe|noscript|svg)\b[\s\S]*?<\/\1>/gi, "")
+
+  const text = decodeHtmlEntities(
+    cleaned
+      .replace(/<br\s*\/?>/gi, " ")
+      .replace(/<\/(p|li|div|h[1-6])>/gi, " ")
+      .replace(/<[^>]+>/g, " "),
+  )
+    .replace(/\s+/g, " ")
+    .trim()
+  if (!text) {
+    return { description: null, descriptionHtml: null }
+  }
+
+  const description =
+    text.length > DESCRIPTION_MAX_TEXT
+      ? `${text.slice(0, DESCRIPTION_MAX_TEXT).replace(/\s+\S*$/, "")}…`
+      : text
+
+  // Rebuilt from escaped text plus tags we emit ourselves: only complete
+  // tags are recognized, so a truncated `<img src=x onerror=…` stays text.
+  const tagPattern =
+    /<(\/?)([a-z][a-z0-9]*)\b((?:[^<>"']|"[^"]*"|'[^']*')*)>/gi
+  const parts: string[] = []
+  let last = 0
+  for (const m of cleaned.matchAll(tagPattern)) {
+    parts.push(escapeHtml(decodeHtmlEntities(cleaned.slice(last, m.index))))
+    last = (m.index ?? 0) + m[0].length
+    const [, close, name, attrs] = m
+    const tag = name.toLowerCase()
+    if (!DESCRIPTION_TAGS.has(tag)) {
+      parts.push(" ")
+    } else if (tag === "a" && !close) {
+      const href = safeHref(attrs)
+      parts.push(
+        href
+          ? `<a href="${escapeHtml(href)}" target="_blank" rel="noreferrer noopener">`
+          : "<a>",
+      )
+    } else {
+      parts.push(`<${close}${tag}>`)
+    }
+  }
+  parts.push(escapeHtml(decodeHtmlEntities(cleaned.slice(last))))
+
+  let html = parts
+    .join("")
+    .replace(/<p>\s*<\/p>/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+  if (!/<(p|ul|ol)>/.test(html)) {
+    html = `<p>${html}</p>`
+  }
+  if (html.length > DESCRIPTION_MAX_HTML) {
+    html = `<p>${escapeHtml(description)}</p>`
+  }
+
+  return { description, descriptionHtml: html }
+}
+
+export interface ParsedCost {
+  priceType: PriceType | null
+  priceMin: number | null
+  priceMax: number | null
+}
+
+/**
+ * Free-text cost ("Free", "$10", "$15 – $25", "Free – $20", "Donations
+ * welcome") → structured price. Bare numbers only count when the whole
+ * string is numeric, so "21+ show, 2 drink minimum" isn't read as $2–$21.
+ * A cost that mentions neither "free" nor an amount is "see-site".
+ */
+export function parseCost(raw: string | null | undefined): ParsedCost {
+  const text = raw
+    ? decodeHtmlEntities(raw).replace(/<[^>]+>/g, " ").replace(/\s+/g, " ").trim()
+    : ""
+  if (!text) {
+    return { priceType: null, priceMin: null, priceMax: null }
+  }
+
+  const amounts = /^[\d.,\s–—-]+$/.test(text)
+    ? (text.match(/\d[\d,]*(?:\.\d{1,2})?/g) ?? [])
+    : Array.from(text.matchAll(/\$\s*(\d[\d,]*(?:\.\d{1,2})?)/g), (m) => m[1])
+  const values = amounts
+    .map((a) => Number(a.replace(/,/g, "")))
+    .filter((n) => Number.isFinite(n))
+  if (/\bfree\b/i.test(text)) values.push(0)
+
+  return priceFromValues(values)
+}
+
+/** Min/max of known prices; all zero → free, none → "see-site". */
+export function priceFromValues(values: number[]): ParsedCost {
+  if (values.length === 0) {
+    return { priceType: "see-site", priceMin: null, priceMax: null }
+  }
+  const priceMin = Math.min(...values)
+  const priceMax = Math.max(...values)
+  if (priceMax === 0) {
+    return { priceType: "free", priceMin: 0, priceMax: 0 }
+  }
+  return { priceType: "range", priceMin, priceMax }
+}
+
 export async function fetchWithRetry(
   url: string,
   init: RequestInit,
@@ -5,6 +5,7 @@ import {
   DEFAULT_BROWSER_HEADERS,
   fetchWithRetry,
   rssTag,
+  sanitizeDescription,
   slugify,
   utcInstantToLocal,
 } from "./shared"
@@ -16,6 +17,8 @@ export interface SidearmEvent {
   startRaw: string
   /** s:localstartdate — school-local date, "2026-04-15" */
   localDate: string
+  /** RSS <description> — opponent/venue/result summary */
+  description: string
 }
 
 export interface SidearmConfig {
@@ -68,8 +71,9 @@ export class SidearmSportsFetcher {
         const link = rssTag(item, "link")
         const startRaw = rssTag(item, "ev:startdate")
         const localDate = rssTag(item, "s:localstartdate")
+        const description = rssTag(item, "description")
         if (!title || !startRaw) continue
-        events.push({ title, link, startRaw, localDate })
+        events.push({ title, link, startRaw, localDate, description })
       }
 
       console.log(
@@ -125,12 +129,20 @@ export class SidearmSportsFetcher {
       location,
       date,
       startTime,
+      endTime: null,
+      allDay: false,
       startDate: date,
       endDate: date,
       latitude: null,
       longitude: null,
       city: this.config.city,
       imageUrl: null,
+      ...sanitizeDescription(event.description),
+      priceType: null,
+      priceMin: null,
+      priceMax: null,
+      ticketUrl: null,
+      audience: null,
       categories: JSON.stringify([{ catName: "Sports", catId: "sports" }]),
       source: this.config.sourceId,
     }
@@ -3,6 +3,7 @@ import { FargoAPIResponse, FargoEvent, StoredEvent } from "../types/event"
 import {
   fetchWithRetry,
   getDateRangeInTimeZone,
+  sanitizeDescription,
   toTimeZoneMidnightIso,
 } from "./shared"
 
@@ -125,6 +126,7 @@ export class SimpleviewFetcher {
           latitude: 1,
           longitude: 1,
           media_raw: 1,
+          description: 1,
           recid: 1,
           title: 1,
           url: 1,
@@ -201,8 +203,13 @@ export class SimpleviewFetcher {
       location: event.location || this.config.defaultLocation || null,
       date,
       startTime,
-      startDate: this.toDateOnly(event.startDate),
-      endDate: this.toDateOnly(event.endDate || event.startDate),
+      endTime: event.endTime || null,
+      allDay: false,
+      // events_by_date already returns one doc per day a listing runs; the
+      // doc's own startDate/endDate span the whole recurrence series, which
+      // would make every weekly listing look like a months-long event.
+      startDate: date,
+      endDate: date,
       latitude: event.latitude || null,
       longitude: event.longitude || null,
       city: event.city || this.config.defaultCity,
@@ -210,6 +217,12 @@ export class SimpleviewFetcher {
         event.media_raw && event.media_raw.length > 0
           ? event.media_raw[0].mediaurl
           : null,
+      ...sanitizeDescription(event.description),
+      priceType: null,
+      priceMin: null,
+      priceMax: null,
+      ticketUrl: null,
+      audience: null,
       categories: JSON.stringify(event.categories),
       source: this.config.sourceId,
     }
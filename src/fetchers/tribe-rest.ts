@@ -1,5 +1,10 @@
 import { FargoUndergroundEvent, StoredEvent } from "../types/event"
-import { DEFAULT_BROWSER_HEADERS, fetchTribeEvents } from "./shared"
+import {
+  DEFAULT_BROWSER_HEADERS,
+  fetchTribeEvents,
+  parseCost,
+  sanitizeDescription,
+} from "./shared"
 
 export interface TribeRestConfig {
   /** Full REST base, e.g. "https://www.dtsf.com/wp-json/tribe/events/v1/events" */
@@ -57,8 +62,13 @@ export class TribeRestFetcher {
   transformToStoredEvent(
     event: FargoUndergroundEvent,
   ): Omit<StoredEvent, "id" | "createdAt" | "updatedAt"> {
+    // All-day entries still carry a "00:00:00" / "23:59:59" clock; drop it.
     const startTimeParts = event.start_date.split(" ")
-    const startTime = startTimeParts.length > 1 ? startTimeParts[1] : null
+    const startTime =
+      !event.all_day && startTimeParts.length > 1 ? startTimeParts[1] : null
+    const endTimeParts = event.end_date.split(" ")
+    const endTime =
+      !event.all_day && endTimeParts.length > 1 ? endTimeParts[1] : null
 
     let location: string | null = null
     if (event.venue) {
@@ -80,12 +90,18 @@ export class TribeRestFetcher {
       location,
       date: event.start_date.split(" ")[0],
       startTime,
+      endTime,
+      allDay: event.all_day,
       startDate: event.start_date.split(" ")[0],
       endDate: event.end_date.split(" ")[0],
       latitude: event.venue?.geo_lat || null,
       longitude: event.venue?.geo_lng || null,
       city: event.venue?.city || this.config.defaultCity,
       imageUrl: event.image?.url || null,
+      ...sanitizeDescription(event.description),
+      ...parseCost(event.cost),
+      ticketUrl: event.website || null,
+      audience: null,
       categories: JSON.stringify(categories),
       source: this.config.sourceId,
     }
@@ -1,5 +1,10 @@
 import { FargoUndergroundEvent, StoredEvent } from "../types/event"
-import { DEFAULT_BROWSER_HEADERS, fetchTribeEvents } from "./shared"
+import {
+  DEFAULT_BROWSER_HEADERS,
+  fetchTribeEvents,
+  parseCost,
+  sanitizeDescription,
+} from "./shared"
 
 export class WestFargoEventsFetcher {
   private readonly clientTimeZone = "America/Chicago"
@@ -29,7 +34,11 @@ export class WestFargoEventsFetcher {
     event: FargoUndergroundEvent,
   ): Omit<StoredEvent, "id" | "createdAt" | "updatedAt"> {
     const startTimeParts = event.start_date.split(" ")
-    const startTime = startTimeParts.length > 1 ? startTimeParts[1] : null
+    const startTime =
+      !event.all_day && startTimeParts.length > 1 ? startTimeParts[1] : null
+    const endTimeParts = event.end_date.split(" ")
+    const endTime =
+      !event.all_day && endTimeParts.length > 1 ? endTimeParts[1] : null
 
     let location: string | null = null
     if (event.venue) {
@@ -51,12 +60,18 @@ export class WestFargoEventsFetcher {
       location,
       date: event.start_date.split(" ")[0],
       startTime,
+      endTime,
+      allDay: event.all_day,
       startDate: event.start_date.split(" ")[0],
       endDate: event.end_date.split(" ")[0],
       latitude: event.venue?.geo_lat || null,
       longitude: event.venue?.geo_lng || null,
       city: event.venue?.city || null,
       imageUrl: event.image?.url || null,
+      ...sanitizeDescription(event.description),
+      ...parseCost(event.cost),
+      ticketUrl: event.website || null,
+      audience: null,
       categories: JSON.stringify(categories),
       source: "westfargoevents.com",
     }
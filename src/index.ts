@@ -43,6 +43,12 @@ async function main() {
       )
     }
 
+    // Guess categories for events the source left uncategorized
+    const inferredCount = db.inferEventCategories()
+    if (inferredCount > 0) {
+      console.log(`🏷️  Inferred categories for ${inferredCount} events\n`)
+    }
+
     // Deduplicate events across all sources
     console.log("🔍 Finding duplicate events...")
     const allMatches = buildAllMatches(db)
@@ -0,0 +1,126 @@
+import {
+  EventDatabase,
+  MatchOverrideAction,
+  MatchOverrideKeyType,
+} from "./db/database"
+import { overrideKeyPair } from "./dedup/overrides"
+
+const USAGE = `Usage:
+  npm run match -- merge <id1> <id2> [--note "why"]   Force two events to dedup
+  npm run match -- split <id1> <id2> [--note "why"]   Keep two events apart
+  npm run match -- remove <id1> <id2>                 Drop the override for a pair
+  npm run match -- list                               Show all overrides
+
+<id> is an eventId (e.g. "sxld_12345") or an event URL. Both must be the
+same kind. URL overrides also cover future re-listings under a new eventId.
+Changes take effect on the next dedup (npm run dedup, or the pipeline).`
+
+function parseArgs(argv: string[]): {
+  command: string | undefined
+  ids: string[]
+  note: string | null
+} {
+  const ids: string[] = []
+  let note: string | null = null
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    if (arg === "--note") {
+      const next = argv[i + 1]
+      if (!next) {
+        throw new Error("--note requires a value")
+      }
+      note = next
+      i++
+      continue
+    }
+    if (arg.startsWith("--note=")) {
+      note = arg.slice("--note=".length)
+      continue
+    }
+    ids.push(arg)
+  }
+  const [command, ...rest] = ids
+  return { command, ids: rest, note }
+}
+
+function keyTypeFor(id1: string, id2: string): MatchOverrideKeyType {
+  const isUrl = (id: string) => /^https?:\/\//i.test(id)
+  if (isUrl(id1) !== isUrl(id2)) {
+    throw new Error("Both ids must be eventIds, or both must be URLs")
+  }
+  return isUrl(id1) ? "url" : "eventId"
+}
+
+function main() {
+  const { command, ids, note } = parseArgs(process.argv.slice(2))
+
+  if (command !== "list" && ids.length !== 2) {
+    console.log(USAGE)
+    process.exitCode = 1
+    return
+  }
+
+  const db = new EventDatabase()
+
+  try {
+    if (command === "list") {
+      const overrides = db.getMatchOverrides()
+      console.log(`\n🔗 Match overrides (${overrides.length}):\n`)
+      for (const override of overrides) {
+        console.log(
+          `   #${override.id} ${override.action.padEnd(5)} ${override.key1} ↔ ${override.key2}` +
+            (override.note ? `  (${override.note})` : ""),
+        )
+      }
+      return
+    }
+
+    const keyType = keyTypeFor(ids[0], ids[1])
+    const [key1, key2] = overrideKeyPair(keyType, ids[0], ids[1])
+    if (key1 === key2) {
+      throw new Error("Both ids refer to the same event")
+    }
+
+    if (command === "remove") {
+      const removed = db.removeMatchOverride(keyType, key1, key2)
+      console.log(
+        removed
+          ? `✓ Removed override for ${key1} ↔ ${key2}`
+          : `No override for ${key1} ↔ ${key2}`,
+      )
+      return
+    }
+
+    if (command !== "merge" && command !== "split") {
+      console.log(USAGE)
+      process.exitCode = 1
+      return
+    }
+
+    if (keyType === "eventId") {
+      const missing = [key1, key2].filter((id) => !db.hasEvent(id))
+      if (missing.length) {
+        throw new Error(`Unknown eventId: ${missing.join(", ")}`)
+      }
+    }
+
+    const override = db.setMatchOverride({
+      action: command as MatchOverrideAction,
+      keyType,
+      key1,
+      key2,
+      note,
+    })
+    console.log(
+      `✓ ${override.action === "merge" ? "Merge" : "Split"} override #${override.id}: ${key1} ↔ ${key2}`,
+    )
+    console.log("   Run `npm run dedup` to apply it now.")
+  } catch (error) {
+    console.error("❌ Error:", error instanceof Error ? error.message : error)
+    process.exitCode = 1
+  } finally {
+    db.close()
+  }
+}
+
+main()
@@ -2,11 +2,12 @@ import { EventDatabase } from "./db/database"
 import { buildAllMatches, persistMatches } from "./fetchers/registry"
 
 /**
- * Re-applies venue enrichment rules to all matching events without refetching,
- * then rebuilds dedup matches and display_events.
+ * Re-applies venue enrichment rules and category inference to all events
+ * without refetching, then rebuilds dedup matches and display_events.
  *
  * Use this after updating coordinates or addresses in the active city's
- * src/cities/<city>/venues.ts to propagate the changes immediately.
+ * src/cities/<city>/venues.ts, or its category rules in categories.ts, to
+ * propagate the changes immediately.
  */
 async function main() {
   console.log("🏛️  Re-enriching venue locations (no fetch)...\n")
@@ -20,6 +21,15 @@ async function main() {
       `✓ Updated ${enrichedCount} events with current venue locations\n`,
     )
 
+    // Relink every event to the venues table (picks up new rules/aliases)
+    const linkedCount = db.linkEventVenues()
+    console.log(`✓ Relinked ${linkedCount} events to canonical venues\n`)
+
+    // Re-run keyword category inference (picks up rule changes and the
+    // locations venue rules just rewrote)
+    const inferredCount = db.inferEventCategories()
+    console.log(`✓ Updated inferred categories for ${inferredCount} events\n`)
+
     // Rebuild dedup matches across ALL registered sources (the same pass the
     // weekly run does), not a hand-maintained subset.
     console.log("🔍 Rebuilding duplicate matches...")
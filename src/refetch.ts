@@ -77,8 +77,44 @@ function getLocalDateString(date: Date): string {
   return `${year}-${month}-${day}`
 }
 
+/**
+ * `--dry-run`: fetch and transform the selected sources and print what would
+ * be stored, without opening the database — for trying out a new source
+ * config (e.g. an HtmlListingFetcher's field regexes) against the live site.
+ */
+async function dryRun(selectedSources: Set<string>) {
+  console.log("🧪 Dry run — nothing is written to the database.\n")
+
+  for (const def of SOURCES) {
+    if (!selectedSources.has(def.source)) continue
+    console.log(`📥 ${def.source}`)
+    try {
+      const events = await def.fetch()
+      console.log(`   ${events.length} events would be stored:`)
+      for (const event of events) {
+        const when = `${event.date} ${event.startTime?.slice(0, 5) ?? "     "}`
+        console.log(`   ${when}  ${event.title}`)
+        console.log(
+          `                     ${event.location ?? "(no location)"} · ${event.eventId}`,
+        )
+        console.log(`                     ${event.url}`)
+      }
+    } catch (error) {
+      console.error(`❌ ${def.source} failed:`, error)
+      process.exitCode = 1
+    }
+    console.log("")
+  }
+}
+
 async function main() {
-  const selectedSources = parseSelectedSources(process.argv.slice(2))
+  const argv = process.argv.slice(2)
+  const selectedSources = parseSelectedSources(argv)
+  if (argv.includes("--dry-run")) {
+    await dryRun(selectedSources)
+    return
+  }
+
   const selectedList = Array.from(selectedSources)
   const isAll = selectedList.length === ALL_SOURCES.length
   console.log(
@@ -106,6 +142,12 @@ async function main() {
       )
     }
 
+    // Guess categories for events the source left uncategorized
+    const inferredCount = db.inferEventCategories()
+    if (inferredCount > 0) {
+      console.log(`🏷️  Inferred categories for ${inferredCount} events\n`)
+    }
+
     // Rebuild dedup matches across all source pairs
     console.log("🔍 Rebuilding duplicate matches...")
     const allMatches = buildAllMatches(db)
@@ -8,6 +8,7 @@ export interface FargoEvent {
   endDate: string;
   startTime?: string;
   endTime?: string;
+  description?: string;
   recurrence?: string;
   recurType: number;
   latitude?: number;
@@ -56,20 +57,50 @@ export interface FargoAPIResponse {
   };
 }
 
+export type PriceType = "free" | "range" | "see-site";
+
 export interface StoredEvent {
   id: number;
   eventId: string;
   title: string;
   url: string;
   location: string | null;
+  /**
+   * Canonical venue (venues.id). Assigned by the database on insert and by
+   * venue enrichment; fetchers never set it.
+   */
+  venueId?: number | null;
   date: string; // Next occurrence date
   startTime: string | null;
+  /** Local wall-clock end, HH:MM:SS, or null when the source gives none */
+  endTime: string | null;
+  /** Source flags this as an all-day entry (startTime is then null) */
+  allDay: boolean;
   startDate: string;
+  /** Last day the event runs (inclusive); later than startDate for multi-day events */
   endDate: string;
   latitude: number | null;
   longitude: number | null;
   city: string | null;
   imageUrl: string | null;
+  /** Sanitized plain text (see sanitizeDescription), or null */
+  description: string | null;
+  /** Short sanitized HTML (whitelisted inline/list tags only), or null */
+  descriptionHtml: string | null;
+  /**
+   * "free", "range" (priceMin–priceMax in dollars), "see-site" (the source
+   * mentions a cost it doesn't state as a number), or null when it says nothing.
+   */
+  priceType: PriceType | null;
+  priceMin: number | null;
+  priceMax: number | null;
+  /** Where to buy tickets / register, when the source gives one */
+  ticketUrl: string | null;
+  /**
+   * JSON array of Audience values from the source's own age fields, or null.
+   * Keyword inference happens at display rebuild (see enrichment/audience).
+   */
+  audience: string | null;
   categories: string;
   source: string;
   createdAt: string;
@@ -87,6 +118,8 @@ export interface FargoUndergroundEvent {
   all_day: boolean;
   timezone: string;
   cost: string;
+  /** Event website (usually the ticket page), or "" */
+  website?: string;
   venue: FargoUndergroundVenue | null;
   organizer: FargoUndergroundOrganizer[];
   categories: FargoUndergroundCategory[];
@@ -1,9 +1,25 @@
 import "dotenv/config"
-import { createServer } from "http"
+import { timingSafeEqual } from "crypto"
+import { createServer, IncomingMessage } from "http"
 import { URL } from "url"
 import { getActiveCity } from "../cities"
-import { EventDatabase } from "../db/database"
+import {
+  DisplayEvent,
+  DisplayEventSource,
+  EventDatabase,
+  EventMatch,
+  EventMatchExplanation,
+  MatchReviewItem,
+} from "../db/database"
+import { FieldProvenance } from "../dedup/merge"
+import { Audience, isAudience, parseAudience } from "../enrichment/audience"
+import {
+  CategoryOrigin,
+  findTaxonomyCategory,
+  parseCategoryIds,
+} from "../enrichment/categories"
 import { ALL_SOURCE_IDS } from "../fetchers/sources"
+import { StoredEvent } from "../types/event"
 
 const PORT = Number(process.env.API_PORT || 8788)
 
@@ -73,6 +89,17 @@ function toPositiveInt(value: string | null, fallback: number): number {
   return parsed
 }
 
+function toNonNegativeNumber(value: string | null): number | null {
+  if (!value) {
+    return null
+  }
+  const parsed = Number(value)
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    return null
+  }
+  return parsed
+}
+
 function sendJson(
   res: { writeHead: Function; end: Function },
   status: number,
@@ -82,14 +109,115 @@ function sendJson(
   res.end(JSON.stringify(payload))
 }
 
+/**
+ * Admin endpoints require `Authorization: Bearer <ADMIN_TOKEN>`. With no
+ * ADMIN_TOKEN configured they answer 404, as if they didn't exist.
+ */
+function checkAdmin(
+  req: IncomingMessage,
+  res: { writeHead: Function; end: Function },
+): boolean {
+  const token = process.env.ADMIN_TOKEN
+  if (!token) {
+    sendJson(res, 404, { error: "Not found" })
+    return false
+  }
+  const expected = Buffer.from(`Bearer ${token}`)
+  const given = Buffer.from(req.headers.authorization ?? "")
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    sendJson(res, 401, { error: "Unauthorized" })
+    return false
+  }
+  return true
+}
+
+/**
+ * The event id from a path segment, or null after answering 400 when the
+ * segment isn't valid percent-encoding (`%E0` would throw a URIError).
+ */
+function decodeEventId(
+  segment: string,
+  res: { writeHead: Function; end: Function },
+): string | null {
+  try {
+    return decodeURIComponent(segment)
+  } catch {
+    sendJson(res, 400, { error: "Invalid event id" })
+    return null
+  }
+}
+
+function toReviewEvent(event: StoredEvent) {
+  return {
+    eventId: event.eventId,
+    title: event.title,
+    location: event.location,
+    date: event.date,
+    startTime: event.startTime,
+    endTime: event.endTime,
+    source: event.source,
+    url: event.url,
+  }
+}
+
+function parseMatchReasons(match: EventMatch): string[] {
+  try {
+    return JSON.parse(match.reasons) as string[]
+  } catch {
+    // pre-JSON rows; leave reasons empty
+    return []
+  }
+}
+
+function toReviewItem({ match, dropped, kept }: MatchReviewItem) {
+  return {
+    id: match.id,
+    score: match.score,
+    confidence: match.confidence,
+    reasons: parseMatchReasons(match),
+    signals: {
+      title: match.titleScore,
+      venue: match.venueScore,
+      time: match.timeScore,
+      geo: match.geoScore,
+    },
+    dropped: toReviewEvent(dropped),
+    kept: toReviewEvent(kept),
+  }
+}
+
+function toMatchExplanation({ match, side, other }: EventMatchExplanation) {
+  return {
+    id: match.id,
+    score: match.score,
+    confidence: match.confidence,
+    matchType: match.matchType,
+    reasons: parseMatchReasons(match),
+    side,
+    other: other
+      ? {
+          eventId: other.eventId,
+          source: other.source,
+          title: other.title,
+          url: other.url,
+        }
+      : null,
+  }
+}
+
 interface EventFilters {
   query: string
   category: string
   sortDir: "asc" | "desc"
+  orderBy: "date" | "relevance"
   dateFrom: string
   dateTo: string
   includeSports: boolean
   collapseRepeats: boolean
+  freeOnly: boolean
+  maxPrice: number | null
+  audience: Audience | null
+  venueId: number | null
 }
 
 function parseEventFilters(searchParams: URLSearchParams): EventFilters {
@@ -97,20 +225,133 @@ function parseEventFilters(searchParams: URLSearchParams): EventFilters {
   const rawFrom = searchParams.get("dateFrom") || ""
   const rawTo = searchParams.get("dateTo") || ""
   const { dateFrom, dateTo } = resolveDateRange(preset, rawFrom, rawTo)
+  const audience = searchParams.get("audience") || ""
 
   return {
     query: searchParams.get("q") || "",
     category: searchParams.get("category") || "",
     sortDir: searchParams.get("sort") === "desc" ? "desc" : "asc",
+    // Relevance only applies with a search query; ties (and no-query
+    // requests) fall back to date order.
+    orderBy: searchParams.get("sort") === "relevance" ? "relevance" : "date",
     dateFrom,
     dateTo,
     includeSports: searchParams.get("sports") === "show",
     // Recurring series collapse to their next occurrence unless the client
     // opts into seeing every date (`repeats=all`).
     collapseRepeats: searchParams.get("repeats") !== "all",
+    freeOnly: searchParams.get("price") === "free",
+    maxPrice: toNonNegativeNumber(searchParams.get("maxPrice")),
+    // Unknown values are ignored rather than matching nothing.
+    audience: isAudience(audience) ? audience : null,
+    venueId: toPositiveInt(searchParams.get("venue"), 0) || null,
+  }
+}
+
+function toCategoryItems(
+  normalizedRaw: string | null,
+  inferredRaw: string | null,
+): { id: string; label: string; origin: CategoryOrigin }[] {
+  const taxonomy = getActiveCity().categoryTaxonomy
+  const inferred = parseCategoryIds(inferredRaw)
+  return parseCategoryIds(normalizedRaw).map((id) => ({
+    id,
+    label: findTaxonomyCategory(taxonomy, id)?.label ?? id,
+    origin: inferred.includes(id) ? "inferred" : "source",
+  }))
+}
+
+function toEventItem(
+  { occurrenceDate, ...row }: DisplayEvent,
+  sources: DisplayEventSource[] = [],
+) {
+  return {
+    ...row,
+    // `date` is the day the row is listed under; a multi-day event
+    // already under way has `ongoing` set and its real first day in
+    // `startDate`.
+    date: occurrenceDate ?? row.date,
+    startDate: row.date,
+    endDate: row.endDate ?? row.date,
+    endTime: row.endTime ?? null,
+    allDay: row.allDay === 1,
+    venueId: row.venueId ?? null,
+    ongoing: occurrenceDate != null && occurrenceDate > row.date,
+    // title/location are decoded at store time; category is
+    // precomputed at rebuild time (response key stays `categories`
+    // for the frontend).
+    categories: row.category ?? null,
+    normalizedCategories: toCategoryItems(
+      row.normalizedCategories,
+      row.inferredCategories,
+    ),
+    description: row.description ?? null,
+    descriptionHtml: row.descriptionHtml ?? null,
+    priceType: row.priceType ?? null,
+    priceMin: row.priceMin ?? null,
+    priceMax: row.priceMax ?? null,
+    ticketUrl: row.ticketUrl ?? null,
+    audience: parseAudience(row.audience),
+    recentChanges: row.recentChanges
+      ? (JSON.parse(row.recentChanges) as string[])
+      : [],
+    latitude: row.latitude ?? null,
+    longitude: row.longitude ?? null,
+    recurringCadence: row.recurringCadence ?? null,
+    recurringCount: row.recurringCount ?? null,
+    possiblyCancelled: row.possiblyCancelled === 1,
+    // Every listing carrying the event, the row's own first.
+    sources: sources.length ? sources : [{ source: row.source, url: row.url }],
+    // Field group → the listing it was taken from, for rows merged from
+    // several sources; {} for single-listing events.
+    fieldSources: row.fieldSources
+      ? (JSON.parse(row.fieldSources) as FieldProvenance)
+      : {},
   }
 }
 
+/** One page of display events in the /api/events response shape. */
+function queryEventPage(
+  db: EventDatabase,
+  filters: EventFilters,
+  page: number,
+  pageSize: number,
+) {
+  const result = db.queryDisplayEvents(
+    filters.query,
+    pageSize,
+    (page - 1) * pageSize,
+    filters.sortDir,
+    filters.category,
+    filters.dateFrom,
+    filters.dateTo,
+    filters.includeSports,
+    filters.collapseRepeats,
+    filters.freeOnly,
+    filters.maxPrice,
+    filters.audience,
+    filters.orderBy,
+    filters.venueId,
+  )
+  const sources = db.getDisplayEventSources(result.rows.map((r) => r.eventId))
+  return {
+    items: result.rows.map((row) =>
+      toEventItem(row, sources.get(row.eventId)),
+    ),
+    total: result.total,
+    page,
+    pageSize,
+    totalPages: Math.max(1, Math.ceil(result.total / pageSize)),
+  }
+}
+
+function parsePageSize(searchParams: URLSearchParams): number {
+  return Math.min(
+    100,
+    Math.max(1, toPositiveInt(searchParams.get("pageSize"), 25)),
+  )
+}
+
 async function main() {
   const db = new EventDatabase()
 
@@ -155,50 +396,20 @@ async function main() {
     }
 
     if (pathname === "/api/categories") {
-      sendJson(res, 200, { categories: db.getDistinctCategories() })
+      // Taxonomy categories drive the filter; the raw source names stay
+      // available (a raw name is still accepted as `category`).
+      sendJson(res, 200, {
+        categories: db.getTaxonomyCategories(),
+        rawCategories: db.getDistinctCategories(),
+      })
       return
     }
 
     if (pathname === "/api/events") {
       const filters = parseEventFilters(requestUrl.searchParams)
       const page = toPositiveInt(requestUrl.searchParams.get("page"), 1)
-      const pageSize = Math.min(
-        100,
-        Math.max(1, toPositiveInt(requestUrl.searchParams.get("pageSize"), 25)),
-      )
-      const offset = (page - 1) * pageSize
-
-      const result = db.queryDisplayEvents(
-        filters.query,
-        pageSize,
-        offset,
-        filters.sortDir,
-        filters.category,
-        filters.dateFrom,
-        filters.dateTo,
-        filters.includeSports,
-        filters.collapseRepeats,
-      )
-      const totalPages = Math.max(1, Math.ceil(result.total / pageSize))
-
-      sendJson(res, 200, {
-        items: result.rows.map((row) => ({
-          ...row,
-          // title/location are decoded at store time; category is
-          // precomputed at rebuild time (response key stays `categories`
-          // for the frontend).
-          categories: row.category ?? null,
-          latitude: row.latitude ?? null,
-          longitude: row.longitude ?? null,
-          recurringCadence: row.recurringCadence ?? null,
-          recurringCount: row.recurringCount ?? null,
-          possiblyCancelled: row.possiblyCancelled === 1,
-        })),
-        total: result.total,
-        page,
-        pageSize,
-        totalPages,
-      })
+      const pageSize = parsePageSize(requestUrl.searchParams)
+      sendJson(res, 200, queryEventPage(db, filters, page, pageSize))
       return
     }
 
@@ -217,6 +428,11 @@ async function main() {
         filters.dateTo,
         filters.includeSports,
         filters.collapseRepeats,
+        filters.freeOnly,
+        filters.maxPrice,
+        filters.audience,
+        filters.orderBy,
+        filters.venueId,
       )
 
       // Coordinates far outside the city's region are upstream geocoding
@@ -236,9 +452,10 @@ async function main() {
           inRegion(row.latitude, row.longitude)
         return {
           title: row.title,
-          date: row.date,
+          date: row.occurrenceDate ?? row.date,
           startTime: row.startTime,
           location: row.location,
+          venueId: row.venueId ?? null,
           url: row.url,
           latitude: hasCoords ? row.latitude : null,
           longitude: hasCoords ? row.longitude : null,
@@ -255,6 +472,97 @@ async function main() {
       return
     }
 
+    if (pathname === "/api/venues") {
+      sendJson(res, 200, { venues: db.getVenues() })
+      return
+    }
+
+    // Venue page: same filters and paging as /api/events, scoped to one
+    // venue, plus the venue itself for the page header.
+    const venueEventsMatch = pathname.match(/^\/api\/venues\/(\d+)\/events$/)
+    if (venueEventsMatch) {
+      const venue = db.getVenue(Number(venueEventsMatch[1]))
+      if (!venue) {
+        sendJson(res, 404, { error: "Venue not found" })
+        return
+      }
+      const filters = {
+        ...parseEventFilters(requestUrl.searchParams),
+        venueId: venue.id,
+      }
+      const page = toPositiveInt(requestUrl.searchParams.get("page"), 1)
+      const pageSize = parsePageSize(requestUrl.searchParams)
+      sendJson(res, 200, {
+        venue,
+        ...queryEventPage(db, filters, page, pageSize),
+      })
+      return
+    }
+
+    if (pathname === "/api/admin/matches") {
+      if (!checkAdmin(req, res)) return
+      const limit = Math.min(
+        toPositiveInt(requestUrl.searchParams.get("limit"), 100),
+        500,
+      )
+      sendJson(res, 200, {
+        matches: db.getMatchReviewQueue(limit).map(toReviewItem),
+      })
+      return
+    }
+
+    const reviewMatch = pathname.match(
+      /^\/api\/admin\/matches\/(\d+)\/(accept|reject)$/,
+    )
+    if (reviewMatch) {
+      if (!checkAdmin(req, res)) return
+      if (req.method !== "POST") {
+        sendJson(res, 405, { error: "Method not allowed" })
+        return
+      }
+      const override = db.resolveMatchReview(
+        Number(reviewMatch[1]),
+        reviewMatch[2] === "accept" ? "merge" : "split",
+      )
+      if (!override) {
+        sendJson(res, 404, { error: "Match not found" })
+        return
+      }
+      sendJson(res, 200, { override })
+      return
+    }
+
+    const historyMatch = pathname.match(/^\/api\/events\/([^/]+)\/history$/)
+    if (historyMatch) {
+      const eventId = decodeEventId(historyMatch[1], res)
+      if (eventId === null) return
+      if (!db.hasEvent(eventId)) {
+        sendJson(res, 404, { error: "Event not found" })
+        return
+      }
+      sendJson(res, 200, { eventId, changes: db.getEventChanges(eventId) })
+      return
+    }
+
+    // Why an event was hidden or is still listed twice: every scored match
+    // touching it, from the last dedup run.
+    const eventMatchesMatch = pathname.match(
+      /^\/api\/events\/([^/]+)\/matches$/,
+    )
+    if (eventMatchesMatch) {
+      const eventId = decodeEventId(eventMatchesMatch[1], res)
+      if (eventId === null) return
+      if (!db.hasEvent(eventId)) {
+        sendJson(res, 404, { error: "Event not found" })
+        return
+      }
+      sendJson(res, 200, {
+        eventId,
+        matches: db.getMatchesForEvent(eventId).map(toMatchExplanation),
+      })
+      return
+    }
+
     sendJson(res, 404, { error: "Not found" })
   })
 
@@ -3,21 +3,52 @@ import "leaflet.markercluster"
 import "leaflet.markercluster/dist/MarkerCluster.css"
 import "leaflet.markercluster/dist/MarkerCluster.Default.css"
 import { createElement, Moon, SlidersHorizontal, Sun, SunMoon, X } from "lucide"
-import { decode } from "he"
 
 type EventItem = {
   title: string
+  /** Day the row is listed under (today for a multi-day event under way) */
   date: string
   startTime: string | null
+  endTime: string | null
+  allDay: boolean
+  /** First and last day the event runs; differ for multi-day events */
+  startDate: string
+  endDate: string
+  /** Multi-day event that started before `date` */
+  ongoing: boolean
   location: string | null
+  /** Canonical venue id; null when the event has no location */
+  venueId: number | null
   city: string | null
+  /** First raw source category name */
   categories: string | null
+  /**
+   * City taxonomy categories (Music, Comedy, …), most events have 1–2.
+   * "inferred" ones are keyword guesses, not the source's own.
+   */
+  normalizedCategories: {
+    id: string
+    label: string
+    origin: "source" | "inferred"
+  }[]
+  /** Plain text (truncated upstream description) */
+  description: string | null
+  /** Short HTML, sanitized at fetch time to a few formatting tags */
+  descriptionHtml: string | null
+  priceType: "free" | "range" | "see-site" | null
+  priceMin: number | null
+  priceMax: number | null
+  ticketUrl: string | null
+  audience: string[]
+  /** Tracked fields (startTime, location, …) the source's last fetch changed */
+  recentChanges: string[]
   source: string
   url: string
-  altUrl: string | null
+  /** Every listing carrying the event (one per source), this row's first */
+  sources: { source: string; url: string }[]
   latitude: number | null
   longitude: number | null
-  recurringCadence: "weekly" | "biweekly" | null
+  recurringCadence: string | null
   recurringCount: number | null
   possiblyCancelled: boolean
 }
@@ -25,7 +56,14 @@ type EventItem = {
 /** Slim shape served by /api/events/map — just what a marker needs. */
 type MapEventItem = Pick<
   EventItem,
-  "title" | "date" | "startTime" | "location" | "url" | "latitude" | "longitude"
+  | "title"
+  | "date"
+  | "startTime"
+  | "location"
+  | "venueId"
+  | "url"
+  | "latitude"
+  | "longitude"
 >
 
 type ViewMode = "list" | "map"
@@ -38,6 +76,20 @@ type EventsResponse = {
   totalPages: number
 }
 
+/** A canonical venue as served by /api/venues */
+type VenueInfo = {
+  id: number
+  name: string
+  address: string | null
+  city: string | null
+  latitude: number | null
+  longitude: number | null
+  upcomingCount: number
+}
+
+/** /api/venues/:id/events — an EventsResponse scoped to one venue */
+type VenueEventsResponse = EventsResponse & { venue: VenueInfo }
+
 type MapEventsResponse = {
   items: MapEventItem[]
   total: number
@@ -61,6 +113,7 @@ const pageSize = 50
 let page = 1
 let query = ""
 let categoryFilter = ""
+let audienceFilter = ""
 let datePreset = "all"
 let totalPages = 1
 let hasMore = false
@@ -72,6 +125,12 @@ let showSports = localStorage.getItem(showSportsStorageKey) === "1"
 // toggle opts into seeing every date.
 const showRepeatsStorageKey = "showRepeats"
 let showRepeats = localStorage.getItem(showRepeatsStorageKey) === "1"
+const freeOnlyStorageKey = "freeOnly"
+let freeOnly = localStorage.getItem(freeOnlyStorageKey) === "1"
+// Venue page: the list scoped to one venue, addressed as ?venue=<id> so it
+// can be bookmarked and shared.
+let venueId = venueIdFromUrl()
+let currentVenue: VenueInfo | null = null
 let currentItems: EventItem[] = []
 let totalResults = 0
 let isLoading = false
@@ -123,6 +182,8 @@ const cityConfigReady: Promise<void> = fetch("/api/config", {
     if (siteTitleEl) {
       siteTitleEl.textContent = config.branding.htmlTitle
     }
+    // A venue page loaded first keeps its "<venue> | <site>" title.
+    if (currentVenue) renderVenueHeader()
   })
   .catch(() => {})
 
@@ -172,15 +233,29 @@ const mapContainerEl = document.getElementById("mapContainer") as HTMLDivElement
 const categoryFilterEl = document.getElementById(
   "categoryFilter",
 ) as HTMLSelectElement
+const audienceFilterEl = document.getElementById(
+  "audienceFilter",
+) as HTMLSelectElement
 const showSportsToggleEl = document.getElementById(
   "showSportsToggle",
 ) as HTMLInputElement
 const showRepeatsToggleEl = document.getElementById(
   "showRepeatsToggle",
 ) as HTMLInputElement
+const freeOnlyToggleEl = document.getElementById(
+  "freeOnlyToggle",
+) as HTMLInputElement
 const themeToggleBtn = document.getElementById(
   "themeToggle",
 ) as HTMLButtonElement
+const venueHeaderEl = document.getElementById("venueHeader") as HTMLDivElement
+const venueBackBtn = document.getElementById(
+  "venueBackBtn",
+) as HTMLButtonElement
+const venueNameEl = document.getElementById("venueName") as HTMLHeadingElement
+const venueDetailsEl = document.getElementById(
+  "venueDetails",
+) as HTMLDivElement
 const themeStorageKey = "themePreference"
 
 filtersCloseBtnEl?.replaceChildren(
@@ -205,7 +280,9 @@ function hasActiveFilters(): boolean {
   return (
     Boolean(query) ||
     Boolean(categoryFilter) ||
+    Boolean(audienceFilter) ||
     (datePreset !== "all" && datePreset !== "") ||
+    freeOnly ||
     sortByCategoryWithinDay
   )
 }
@@ -346,6 +423,47 @@ function formatTime(time: string | null): string {
   return `${hour}:${String(m).padStart(2, "0")} ${ampm}`
 }
 
+/** "7:00 PM – 9:00 PM", "All day", or "" — for the list's time column. */
+function formatTimeRange(item: EventItem): string {
+  if (item.allDay) return "All day"
+  // An ongoing row's start time belongs to its first day, not this one.
+  if (item.ongoing) return ""
+  const start = formatTime(item.startTime)
+  if (!start) return ""
+  const end = item.endDate === item.startDate ? formatTime(item.endTime) : ""
+  return end && end !== start ? `${start} – ${end}` : start
+}
+
+const AUDIENCE_LABELS: Record<string, string> = {
+  kids: "Kids",
+  teens: "Teens",
+  adults: "Adults",
+  "21+": "21+",
+}
+
+/** "Free", "$10", "$15–$25", or "" when the cost isn't stated. */
+function formatPrice(item: EventItem): string {
+  if (item.priceType === "free") return "Free"
+  if (item.priceType !== "range" || item.priceMin == null) return ""
+  const dollars = (n: number) =>
+    Number.isInteger(n) ? `$${n}` : `$${n.toFixed(2)}`
+  if (item.priceMax == null || item.priceMax === item.priceMin) {
+    return dollars(item.priceMin)
+  }
+  // "Free – $20" reads better than "$0–$20".
+  const low = item.priceMin === 0 ? "Free" : dollars(item.priceMin)
+  return `${low}–${dollars(item.priceMax)}`
+}
+
+/** "Sat 10/25" — compact day for the multi-day chip. */
+function formatShortDay(date: string): string {
+  const [year, month, day] = date.split("-").map(Number)
+  const weekday = new Date(year, month - 1, day).toLocaleDateString(undefined, {
+    weekday: "short",
+  })
+  return `${weekday} ${month}/${day}`
+}
+
 function formatDate(date: string, time: string | null): string {
   const t = formatTime(time)
   return t ? `${formatDay(date)} ${t}` : formatDay(date)
@@ -362,8 +480,8 @@ function formatDayLabel(date: string): string {
   })
 }
 
-function formatCategory(categoriesRaw: string | null): string {
-  return categoriesRaw || "N/A"
+function formatCategory(item: EventItem): string {
+  return item.normalizedCategories[0]?.label || item.categories || "N/A"
 }
 
 function getHostFromUrl(url: string): string {
@@ -504,15 +622,39 @@ function renderMap(items: MapEventItem[]): void {
     (item) => item.latitude != null && item.longitude != null,
   )
 
-  for (const item of mappable) {
-    const lat = item.latitude as number
-    const lng = item.longitude as number
-    const dateStr = formatDate(item.date, item.startTime)
-    const popup = `
-      <strong>${item.title}</strong><br>
-      ${dateStr}<br>
-      ${item.location ? `${item.location}<br>` : ""}
-      <a href="${item.url}" target="_blank" rel="noreferrer noopener">View event</a>
+  // One marker per canonical venue: sources geocode the same building a
+  // few meters apart, which would otherwise stack near-identical pins.
+  const markerGroups = new Map<string, MapEventItem[]>()
+  mappable.forEach((item, idx) => {
+    const key = item.venueId != null ? `venue:${item.venueId}` : `item:${idx}`
+    const group = markerGroups.get(key) || []
+    group.push(item)
+    markerGroups.set(key, group)
+  })
+
+  for (const group of markerGroups.values()) {
+    const first = group[0]
+    const lat = first.latitude as number
+    const lng = first.longitude as number
+    const popup =
+      group.length === 1
+        ? `
+      <strong>${first.title}</strong><br>
+      ${formatDate(first.date, first.startTime)}<br>
+      ${first.location ? `${first.location}<br>` : ""}
+      <a href="${first.url}" target="_blank" rel="noreferrer noopener">View event</a>
+    `
+        : `
+      <strong>${first.location ?? ""}</strong><br>
+      ${group.length} events
+      <ul class="map-popup-list">
+        ${group
+          .map(
+            (item) =>
+              `<li><a href="${item.url}" target="_blank" rel="noreferrer noopener">${item.title}</a><br>${formatDate(item.date, item.startTime)}</li>`,
+          )
+          .join("")}
+      </ul>
     `
     L.marker([lat, lng]).bindPopup(popup).addTo(mapMarkers)
   }
@@ -550,6 +692,64 @@ function renderMap(items: MapEventItem[]): void {
   mapInstance.setView(initial.center, initial.zoom, { animate: false })
 }
 
+function venueIdFromUrl(): number | null {
+  const raw = new URLSearchParams(window.location.search).get("venue")
+  const parsed = raw ? Number.parseInt(raw, 10) : NaN
+  return Number.isNaN(parsed) || parsed <= 0 ? null : parsed
+}
+
+function renderVenueHeader(): void {
+  venueHeaderEl.hidden = venueId == null
+  if (venueId == null) {
+    document.title = cityUi.htmlTitle
+    return
+  }
+  if (!currentVenue || currentVenue.id !== venueId) {
+    venueNameEl.textContent = "Loading venue…"
+    venueDetailsEl.replaceChildren()
+    return
+  }
+
+  const venue = currentVenue
+  document.title = `${venue.name} | ${cityUi.htmlTitle}`
+  venueNameEl.textContent = venue.name
+  venueDetailsEl.replaceChildren()
+  const address = [venue.address, venue.city].filter(Boolean).join(", ")
+  if (address) {
+    const mapsQuery = encodeURIComponent(`${venue.name}, ${address}`)
+    const addressLink = document.createElement("a")
+    addressLink.className = "location-link"
+    addressLink.href = `https://maps.google.com/?q=${mapsQuery}`
+    addressLink.target = "_blank"
+    addressLink.rel = "noreferrer noopener"
+    addressLink.textContent = address
+    venueDetailsEl.appendChild(addressLink)
+    venueDetailsEl.appendChild(document.createTextNode(" · "))
+  }
+  venueDetailsEl.appendChild(
+    document.createTextNode(
+      venue.upcomingCount === 1
+        ? "1 upcoming event"
+        : `${venue.upcomingCount} upcoming events`,
+    ),
+  )
+}
+
+function setVenuePage(nextVenueId: number | null): void {
+  if (nextVenueId === venueId) return
+  venueId = nextVenueId
+  const url = new URL(window.location.href)
+  if (venueId == null) {
+    url.searchParams.delete("venue")
+  } else {
+    url.searchParams.set("venue", String(venueId))
+  }
+  history.pushState(null, "", url)
+  renderVenueHeader()
+  applyFiltersChanged()
+  window.scrollTo({ top: 0, behavior: "auto" })
+}
+
 function updateListMeta(): void {
   metaEl.textContent =
     "Showing " +
@@ -563,7 +763,7 @@ function updateListMeta(): void {
 function updateMapMeta(): void {
   const unmapped = mapTotal - mapMappable
   metaEl.textContent =
-    `Showing ${mapMappable} markers` +
+    `Showing ${mapMappable} mapped events` +
     (unmapped > 0 ? ` (${unmapped} events without coordinates)` : "")
 }
 
@@ -574,9 +774,12 @@ async function loadMapEvents(): Promise<void> {
   const params = new URLSearchParams()
   if (query) params.set("q", query)
   if (categoryFilter) params.set("category", categoryFilter)
+  if (audienceFilter) params.set("audience", audienceFilter)
   if (datePreset && datePreset !== "all") params.set("preset", datePreset)
   if (showSports) params.set("sports", "show")
   if (showRepeats) params.set("repeats", "all")
+  if (freeOnly) params.set("price", "free")
+  if (venueId != null) params.set("venue", String(venueId))
 
   try {
     const response = await fetch("/api/events/map?" + params.toString(), {
@@ -673,8 +876,8 @@ function sortItemsByCategoryWithinDay(items: EventItem[]): EventItem[] {
     }
 
     currentGroup.sort((a, b) => {
-      const categoryA = formatCategory(a.categories)
-      const categoryB = formatCategory(b.categories)
+      const categoryA = formatCategory(a)
+      const categoryB = formatCategory(b)
       return categoryA.localeCompare(categoryB, undefined, {
         sensitivity: "base",
       })
@@ -696,6 +899,40 @@ function sortItemsByCategoryWithinDay(items: EventItem[]): EventItem[] {
   return sorted
 }
 
+/**
+ * Collapsed: the plain-text description clamped to two lines. Expanded: the
+ * short HTML version (sanitized server-side to p/br/strong/em/lists/links).
+ */
+function buildDescription(
+  description: string,
+  descriptionHtml: string | null,
+): HTMLDetailsElement {
+  const details = document.createElement("details")
+  details.className = "event-description"
+
+  const summary = document.createElement("summary")
+  summary.textContent = description
+  details.appendChild(summary)
+
+  details.addEventListener("toggle", () => {
+    summary.textContent = details.open ? "Hide details" : description
+    // Build the body lazily — most rows are never expanded.
+    if (!details.open || details.querySelector(".event-description-body")) {
+      return
+    }
+    const body = document.createElement("div")
+    body.className = "event-description-body"
+    if (descriptionHtml) {
+      body.innerHTML = descriptionHtml
+    } else {
+      body.textContent = description
+    }
+    details.appendChild(body)
+  })
+
+  return details
+}
+
 function buildEventRow(item: EventItem): HTMLTableRowElement {
   const tr = document.createElement("tr")
   tr.className = "event-row"
@@ -712,7 +949,8 @@ function buildEventRow(item: EventItem): HTMLTableRowElement {
 
   tr.addEventListener("click", (event: MouseEvent) => {
     const targetElement = event.target as Element | null
-    if (targetElement?.closest("a")) {
+    // Links and the expandable description handle their own clicks.
+    if (targetElement?.closest("a, details")) {
       return
     }
     navigateToEvent()
@@ -747,6 +985,32 @@ function buildEventRow(item: EventItem): HTMLTableRowElement {
     titleTd.appendChild(chip)
   }
 
+  if (item.endDate > item.startDate) {
+    const chip = document.createElement("span")
+    chip.className = "ongoing-chip"
+    chip.textContent = item.ongoing
+      ? `ongoing · through ${formatShortDay(item.endDate)}`
+      : `through ${formatShortDay(item.endDate)}`
+    chip.title = `Runs ${formatDay(item.startDate)} – ${formatDay(item.endDate)}`
+    titleTd.appendChild(chip)
+  }
+
+  // A new endDate (a run extended or cut short) already shows in the
+  // "through" chip above; it isn't a change to when the event starts
+  const timeChanged = item.recentChanges.some((field) =>
+    ["date", "startTime", "endTime"].includes(field),
+  )
+  const moved = item.recentChanges.includes("location")
+  if (timeChanged || moved) {
+    const chip = document.createElement("span")
+    chip.className = "changed-chip"
+    chip.textContent = [timeChanged && "Time changed", moved && "Moved"]
+      .filter(Boolean)
+      .join(" · ")
+    chip.title = "Updated by the source since the previous fetch"
+    titleTd.appendChild(chip)
+  }
+
   if (item.possiblyCancelled) {
     const chip = document.createElement("span")
     chip.className = "cancelled-chip"
@@ -758,6 +1022,42 @@ function buildEventRow(item: EventItem): HTMLTableRowElement {
     titleTd.appendChild(chip)
   }
 
+  // "all-ages" is the unremarkable default, so only narrower groups get a chip.
+  const audienceLabels = item.audience
+    .filter((a) => a !== "all-ages")
+    .map((a) => AUDIENCE_LABELS[a] ?? a)
+  if (audienceLabels.length) {
+    const chip = document.createElement("span")
+    chip.className = "audience-chip"
+    chip.textContent = audienceLabels.join(" · ")
+    titleTd.appendChild(chip)
+  }
+
+  const priceText = formatPrice(item)
+  if (priceText) {
+    const chip = document.createElement("span")
+    chip.className =
+      item.priceType === "free" ? "price-chip price-chip-free" : "price-chip"
+    chip.textContent = priceText
+    titleTd.appendChild(chip)
+  }
+
+  if (item.ticketUrl && item.ticketUrl !== item.url) {
+    const ticketLink = document.createElement("a")
+    ticketLink.className = "ticket-link"
+    ticketLink.href = item.ticketUrl
+    ticketLink.target = "_blank"
+    ticketLink.rel = "noreferrer noopener"
+    ticketLink.textContent = "Tickets"
+    titleTd.appendChild(ticketLink)
+  }
+
+  if (item.description) {
+    titleTd.appendChild(
+      buildDescription(item.description, item.descriptionHtml),
+    )
+  }
+
   const dateTd = document.createElement("td")
   dateTd.setAttribute("data-label", "Date")
   dateTd.className = "datetime-cell"
@@ -765,7 +1065,7 @@ function buildEventRow(item: EventItem): HTMLTableRowElement {
   dayPart.className = "datetime-day"
   dayPart.textContent = formatDay(item.date)
   dateTd.appendChild(dayPart)
-  const timeText = formatTime(item.startTime)
+  const timeText = formatTimeRange(item)
   if (timeText) {
     dateTd.appendChild(document.createTextNode(" "))
     const timeEl = document.createElement("span")
@@ -788,6 +1088,20 @@ function buildEventRow(item: EventItem): HTMLTableRowElement {
     locationLink.textContent = item.location
     locationLink.className = "location-link"
     locationTd.appendChild(locationLink)
+    if (item.venueId != null && item.venueId !== venueId) {
+      const venueLink = document.createElement("a")
+      venueLink.className = "venue-page-link"
+      venueLink.href = `?venue=${item.venueId}`
+      venueLink.textContent = "All events here"
+      const itemVenueId = item.venueId
+      venueLink.addEventListener("click", (event) => {
+        // Plain clicks stay in the SPA; modified clicks open a new tab.
+        if (event.metaKey || event.ctrlKey || event.shiftKey) return
+        event.preventDefault()
+        setVenuePage(itemVenueId)
+      })
+      locationTd.appendChild(venueLink)
+    }
   } else {
     locationTd.textContent = "N/A"
   }
@@ -801,14 +1115,23 @@ function buildEventRow(item: EventItem): HTMLTableRowElement {
 
   const categoryPill = document.createElement("span")
   categoryPill.className = "category-pill"
-  categoryPill.textContent = formatCategory(item.categories)
+  categoryPill.textContent = formatCategory(item)
+  if (item.normalizedCategories.length > 1) {
+    categoryPill.textContent += ` +${item.normalizedCategories.length - 1}`
+  }
+  if (item.normalizedCategories.length > 0) {
+    categoryPill.title = item.normalizedCategories
+      .map((c) => (c.origin === "inferred" ? `${c.label} (guessed)` : c.label))
+      .join(", ")
+  }
   categoryInline.appendChild(categoryPill)
 
   const sourceIconsInline = document.createElement("div")
   sourceIconsInline.className = "source-icons-inline"
-  sourceIconsInline.appendChild(createSourceIconLink(item.url, item.source))
-  if (item.altUrl) {
-    sourceIconsInline.appendChild(createSourceIconLink(item.altUrl))
+  for (const listing of item.sources) {
+    sourceIconsInline.appendChild(
+      createSourceIconLink(listing.url, listing.source),
+    )
   }
   categoryInline.appendChild(sourceIconsInline)
 
@@ -820,11 +1143,8 @@ function buildEventRow(item: EventItem): HTMLTableRowElement {
   const sourceList = document.createElement("div")
   sourceList.className = "source-list"
 
-  sourceList.appendChild(createSourceChip(item.url, item.source))
-
-  if (item.altUrl) {
-    const altSourceLabel = formatSourceHostLabel(getHostFromUrl(item.altUrl))
-    sourceList.appendChild(createSourceChip(item.altUrl, altSourceLabel))
+  for (const listing of item.sources) {
+    sourceList.appendChild(createSourceChip(listing.url, listing.source))
   }
 
   const sourceMeta = document.createElement("div")
@@ -843,6 +1163,9 @@ function buildEventRow(item: EventItem): HTMLTableRowElement {
 }
 
 function venueGroupKey(item: EventItem): string | null {
+  // Group by canonical venue so "Fargo Theatre" and "Fargo Theatre, 314
+  // Broadway N" from different sources land in one group.
+  if (item.venueId != null) return `${item.date}|venue:${item.venueId}`
   if (!item.location) return null
   return `${item.date}|${item.location}`
 }
@@ -1148,13 +1471,16 @@ async function load(mode: "replace" | "append" = "replace"): Promise<void> {
   })
   if (query) params.set("q", query)
   if (categoryFilter) params.set("category", categoryFilter)
+  if (audienceFilter) params.set("audience", audienceFilter)
   if (datePreset && datePreset !== "all") params.set("preset", datePreset)
   if (showSports) params.set("sports", "show")
   if (showRepeats) params.set("repeats", "all")
+  if (freeOnly) params.set("price", "free")
+  const path = venueId != null ? `/api/venues/${venueId}/events` : apiPath
 
   try {
     // Timeout so a hung request can't strand the UI on "Loading…" forever.
-    const response = await fetch(apiPath + "?" + params.toString(), {
+    const response = await fetch(path + "?" + params.toString(), {
       signal: AbortSignal.timeout(15000),
     })
     if (!response.ok) {
@@ -1164,8 +1490,14 @@ async function load(mode: "replace" | "append" = "replace"): Promise<void> {
       )
     }
 
-    const data = (await response.json()) as EventsResponse
+    const data = (await response.json()) as
+      | EventsResponse
+      | VenueEventsResponse
     const newItems = data.items || []
+    if ("venue" in data) {
+      currentVenue = data.venue
+      renderVenueHeader()
+    }
 
     page = data.page || page
     totalPages = data.totalPages || 1
@@ -1245,6 +1577,8 @@ clearBtn.addEventListener("click", () => {
   query = ""
   categoryFilter = ""
   categoryFilterEl.value = ""
+  audienceFilter = ""
+  audienceFilterEl.value = ""
   syncFiltersToggleButtonState()
   applyFiltersChanged()
 })
@@ -1317,6 +1651,12 @@ categoryFilterEl.addEventListener("change", () => {
   applyFiltersChanged()
 })
 
+audienceFilterEl.addEventListener("change", () => {
+  audienceFilter = audienceFilterEl.value
+  syncFiltersToggleButtonState()
+  applyFiltersChanged()
+})
+
 showSportsToggleEl.checked = showSports
 showSportsToggleEl.addEventListener("change", () => {
   showSports = showSportsToggleEl.checked
@@ -1331,16 +1671,26 @@ showRepeatsToggleEl.addEventListener("change", () => {
   applyFiltersChanged()
 })
 
+freeOnlyToggleEl.checked = freeOnly
+freeOnlyToggleEl.addEventListener("change", () => {
+  freeOnly = freeOnlyToggleEl.checked
+  localStorage.setItem(freeOnlyStorageKey, freeOnly ? "1" : "0")
+  syncFiltersToggleButtonState()
+  applyFiltersChanged()
+})
+
 async function populateCategoryFilter(): Promise<void> {
   try {
     const res = await fetch("/api/categories")
     if (!res.ok) return
-    const data = (await res.json()) as { categories: string[] }
+    const data = (await res.json()) as {
+      categories: { id: string; label: string; count: number }[]
+    }
     for (const cat of data.categories) {
+      if (cat.count === 0) continue
       const opt = document.createElement("option")
-      opt.value = cat
-      // Keep raw value for filtering (matches DB), but decode for display.
-      opt.textContent = decode(cat)
+      opt.value = cat.id
+      opt.textContent = `${cat.label} (${cat.count})`
       categoryFilterEl.appendChild(opt)
     }
   } catch {
@@ -1352,8 +1702,22 @@ viewToggleBtn.addEventListener("click", () => {
   setViewMode(viewMode === "list" ? "map" : "list")
 })
 
+venueBackBtn.addEventListener("click", () => {
+  setVenuePage(null)
+})
+
+// Back/forward between the venue page and the full list.
+window.addEventListener("popstate", () => {
+  const nextVenueId = venueIdFromUrl()
+  if (nextVenueId === venueId) return
+  venueId = nextVenueId
+  renderVenueHeader()
+  applyFiltersChanged()
+})
+
 updateCategorySortHeader()
 updateDateSortHeader()
 
 populateCategoryFilter()
+renderVenueHeader()
 load("replace")
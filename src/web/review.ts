@@ -0,0 +1,251 @@
+/**
+ * Admin review queue for borderline dedup matches (/review.html). Each
+ * accept/reject writes a manual match override through the API; the
+ * display table picks it up on the next dedup run.
+ */
+
+type ReviewEvent = {
+  eventId: string
+  title: string
+  location: string | null
+  date: string
+  startTime: string | null
+  endTime: string | null
+  source: string
+  url: string
+}
+
+type ReviewItem = {
+  id: number
+  score: number
+  confidence: "low" | "medium"
+  reasons: string[]
+  /** Per-signal scores (0–1); null for matches scored before they were stored */
+  signals: {
+    title: number | null
+    venue: number | null
+    time: number | null
+    geo: number | null
+  }
+  /** The side dedup would hide */
+  dropped: ReviewEvent
+  /** The side dedup would keep */
+  kept: ReviewEvent
+}
+
+const tokenStorageKey = "adminToken"
+const themeStorageKey = "themePreference"
+
+const metaEl = document.getElementById("meta") as HTMLDivElement
+const queueEl = document.getElementById("queue") as HTMLDivElement
+const tokenFormEl = document.getElementById("tokenForm") as HTMLFormElement
+const tokenInputEl = document.getElementById("tokenInput") as HTMLInputElement
+
+let remaining = 0
+
+// Same stored preference as the main page's theme toggle.
+const storedTheme = localStorage.getItem(themeStorageKey)
+if (storedTheme === "light" || storedTheme === "dark") {
+  document.documentElement.setAttribute("data-theme", storedTheme)
+}
+
+function authHeaders(): HeadersInit {
+  return {
+    Authorization: `Bearer ${localStorage.getItem(tokenStorageKey) ?? ""}`,
+  }
+}
+
+function formatDay(date: string): string {
+  const [year, month, day] = date.split("-").map(Number)
+  const weekday = new Date(year, month - 1, day).toLocaleDateString(
+    undefined,
+    { weekday: "short" },
+  )
+  return `${weekday}, ${month}/${day}/${year}`
+}
+
+function formatTime(time: string | null): string {
+  if (!time) return ""
+  const [h, m] = time.split(":").map(Number)
+  const hour = h % 12 || 12
+  const ampm = h < 12 ? "AM" : "PM"
+  return `${hour}:${String(m).padStart(2, "0")} ${ampm}`
+}
+
+function updateMeta(): void {
+  metaEl.textContent =
+    remaining === 0
+      ? "Queue is empty — nothing to review."
+      : `${remaining} borderline ${remaining === 1 ? "match" : "matches"} to review. Decisions take effect on the next dedup run.`
+}
+
+function showTokenForm(message: string): void {
+  metaEl.textContent = message
+  tokenFormEl.hidden = false
+  queueEl.replaceChildren()
+}
+
+function buildEventPanel(role: string, event: ReviewEvent): HTMLDivElement {
+  const panel = document.createElement("div")
+  panel.className = "review-event"
+
+  const roleEl = document.createElement("div")
+  roleEl.className = "review-event-role"
+  roleEl.textContent = `${role} · ${event.source}`
+
+  const titleEl = document.createElement("div")
+  titleEl.className = "review-event-title"
+  const link = document.createElement("a")
+  link.href = event.url
+  link.target = "_blank"
+  link.rel = "noreferrer noopener"
+  link.textContent = event.title
+  titleEl.append(link)
+
+  const time = [formatTime(event.startTime), formatTime(event.endTime)]
+    .filter(Boolean)
+    .join(" – ")
+  const whenEl = document.createElement("div")
+  whenEl.className = "review-event-line"
+  whenEl.textContent = time
+    ? `${formatDay(event.date)} · ${time}`
+    : formatDay(event.date)
+
+  const whereEl = document.createElement("div")
+  whereEl.className = "review-event-line"
+  whereEl.textContent = event.location ?? "No venue"
+
+  panel.append(roleEl, titleEl, whenEl, whereEl)
+  return panel
+}
+
+function buildSignal(label: string, score: number | null): HTMLDivElement {
+  const signal = document.createElement("div")
+  signal.textContent = `${label} ${score == null ? "—" : score.toFixed(2)}`
+  const bar = document.createElement("div")
+  bar.className = "review-signal-bar"
+  const fill = document.createElement("div")
+  fill.className = "review-signal-fill"
+  fill.style.width = `${Math.round((score ?? 0) * 100)}%`
+  bar.append(fill)
+  signal.append(bar)
+  return signal
+}
+
+async function resolve(
+  item: ReviewItem,
+  verdict: "accept" | "reject",
+  card: HTMLDivElement,
+): Promise<void> {
+  card.querySelectorAll("button").forEach((btn) => (btn.disabled = true))
+  try {
+    const response = await fetch(`/api/admin/matches/${item.id}/${verdict}`, {
+      method: "POST",
+      headers: authHeaders(),
+    })
+    // 404 means a dedup run already replaced the match — drop it either way.
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`HTTP ${response.status}`)
+    }
+    card.remove()
+    remaining--
+    updateMeta()
+  } catch (error) {
+    card.querySelectorAll("button").forEach((btn) => (btn.disabled = false))
+    metaEl.textContent = `Could not save decision: ${error instanceof Error ? error.message : error}`
+  }
+}
+
+function buildCard(item: ReviewItem): HTMLDivElement {
+  const card = document.createElement("div")
+  card.className = "review-card"
+
+  const summary = document.createElement("div")
+  summary.className = "review-summary"
+  const score = document.createElement("div")
+  score.className = "review-score"
+  score.textContent = `Score ${item.score.toFixed(2)}`
+  const confidence = document.createElement("span")
+  confidence.className = "review-confidence"
+  confidence.textContent = item.confidence
+  score.append(confidence)
+
+  const actions = document.createElement("div")
+  actions.className = "review-actions"
+  const acceptBtn = document.createElement("button")
+  acceptBtn.type = "button"
+  acceptBtn.className = "review-accept"
+  acceptBtn.textContent = "Same event"
+  acceptBtn.addEventListener("click", () => resolve(item, "accept", card))
+  const rejectBtn = document.createElement("button")
+  rejectBtn.type = "button"
+  rejectBtn.className = "review-reject"
+  rejectBtn.textContent = "Different events"
+  rejectBtn.addEventListener("click", () => resolve(item, "reject", card))
+  actions.append(acceptBtn, rejectBtn)
+  summary.append(score, actions)
+
+  const pair = document.createElement("div")
+  pair.className = "review-pair"
+  pair.append(
+    buildEventPanel("Hidden if merged", item.dropped),
+    buildEventPanel("Kept", item.kept),
+  )
+
+  const signals = document.createElement("div")
+  signals.className = "review-signals"
+  signals.append(
+    buildSignal("Title", item.signals.title),
+    buildSignal("Venue", item.signals.venue),
+    buildSignal("Time", item.signals.time),
+    buildSignal("Geo", item.signals.geo),
+  )
+
+  const reasons = document.createElement("ul")
+  reasons.className = "review-reasons"
+  for (const reason of item.reasons) {
+    const li = document.createElement("li")
+    li.textContent = reason
+    reasons.append(li)
+  }
+
+  card.append(summary, pair, signals, reasons)
+  return card
+}
+
+async function loadQueue(): Promise<void> {
+  metaEl.textContent = "Loading…"
+  try {
+    const response = await fetch("/api/admin/matches", {
+      headers: authHeaders(),
+    })
+    if (response.status === 401) {
+      showTokenForm("Enter the admin token to review matches.")
+      return
+    }
+    if (response.status === 404) {
+      metaEl.textContent =
+        "Match review is disabled (ADMIN_TOKEN is not set on the API server)."
+      return
+    }
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`)
+    }
+    const data = (await response.json()) as { matches: ReviewItem[] }
+    tokenFormEl.hidden = true
+    remaining = data.matches.length
+    queueEl.replaceChildren(...data.matches.map(buildCard))
+    updateMeta()
+  } catch (error) {
+    metaEl.textContent = `Failed to load review queue: ${error instanceof Error ? error.message : error}`
+  }
+}
+
+tokenFormEl.addEventListener("submit", (event) => {
+  event.preventDefault()
+  localStorage.setItem(tokenStorageKey, tokenInputEl.value.trim())
+  tokenInputEl.value = ""
+  loadQueue()
+})
+
+loadQueue()
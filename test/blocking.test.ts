@@ -0,0 +1,103 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import { findMatches } from "../src/dedup/matcher"
+import { StoredEvent } from "../src/types/event"
+
+let nextId = 1
+function listing(
+  source: string,
+  title: string,
+  date: string,
+  startTime: string,
+  location: string | null,
+  venueId: number | null,
+): StoredEvent {
+  const id = nextId++
+  return {
+    id,
+    eventId: `${source}-${id}`,
+    title,
+    url: `https://${source}/event/${id}`,
+    location,
+    venueId,
+    date,
+    startTime,
+    endTime: null,
+    allDay: false,
+    startDate: date,
+    endDate: date,
+    latitude: null,
+    longitude: null,
+    city: "Fargo",
+    source,
+  } as StoredEvent
+}
+
+const BUSY = "2026-11-10"
+const QUIET = "2026-11-12"
+
+const fillers = [
+  "Storytime",
+  "Chess Club",
+  "Open Mic Night",
+  "Bingo",
+  "Pottery Class",
+  "Trivia",
+  "Book Sale",
+  "Knitting Circle",
+  "Drag Brunch",
+  "Jazz Jam",
+  "Robot Lab",
+].map((title, i) =>
+  listing("b", title, BUSY, `${10 + i}:00:00`, "Main Library", 1),
+)
+
+const a = [
+  // No shared trigram, no canonical venue on either side
+  listing("a", "Yoga", BUSY, "09:00:00", "Fargo, ND", null),
+  // Shared trigrams
+  listing("a", "Sunset Yoga", BUSY, "18:00:00", "Island Park", 2),
+  // No shared trigram, different venueIds, overlapping location text
+  listing("a", "Yoga", BUSY, "07:00:00", "Island Park", 2),
+  // Across midnight into the next day
+  listing("a", "Late Show", BUSY, "23:45:00", "Fargo Theatre", 4),
+  // Few events that day: compared in full
+  listing("a", "Yoga", QUIET, "09:00:00", "Island Park", 2),
+  ...fillers.map((filler) =>
+    listing("a", filler.title, BUSY, filler.startTime!, "Main Library", 1),
+  ),
+]
+const b = [
+  listing("b", "Yooa", BUSY, "09:00:00", "Fargo, ND", null),
+  listing("b", "Sunset Flow", BUSY, "18:00:00", "Island Park", 2),
+  listing("b", "Yooa", BUSY, "07:00:00", "Island Park Shelter", 3),
+  listing("b", "Late Show", "2026-11-11", "00:15:00", "Fargo Theatre", 4),
+  listing("b", "Yooa", QUIET, "09:00:00", "Island Park Shelter", 3),
+  ...fillers,
+]
+
+const pairKey = (m: { eventId1: string; eventId2: string }) =>
+  `${m.eventId1} ${m.eventId2}`
+
+test("findMatches keeps the pairs an unblocked scan finds", () => {
+  // Every pair scored on its own: one indexed event is never blocked
+  const unblocked = a
+    .flatMap((event1) =>
+      b.flatMap((event2) => findMatches([event1], [event2])),
+    )
+    .map(pairKey)
+    .sort()
+  const blocked = findMatches(a, b).map(pairKey).sort()
+
+  assert.ok(blocked.every((key) => unblocked.includes(key)))
+  for (const i of [0, 1, 3, 4]) {
+    const key = pairKey({ eventId1: a[i].eventId, eventId2: b[i].eventId })
+    assert.ok(blocked.includes(key), key)
+  }
+  // The one deliberate gap (see blocking.ts): a busy date, no shared
+  // trigram and different venueIds
+  assert.deepEqual(
+    unblocked.filter((key) => !blocked.includes(key)),
+    [pairKey({ eventId1: a[2].eventId, eventId2: b[2].eventId })],
+  )
+})
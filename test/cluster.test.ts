@@ -0,0 +1,54 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import { ClusterEvent, clusterMatches } from "../src/dedup/cluster"
+import { splitPairs } from "../src/dedup/overrides"
+import { MatchOverride } from "../src/db/database"
+
+const events = new Map<string, ClusterEvent>([
+  ["a", { eventId: "a", source: "fargounderground.com", id: 1 }],
+  ["b", { eventId: "b", source: "fargomoorhead.org", id: 2 }],
+  ["c", { eventId: "c", source: "fargolibrary.org", id: 3 }],
+])
+const matches = [
+  { eventId1: "a", eventId2: "c", score: 0.9 },
+  { eventId1: "b", eventId2: "c", score: 0.8 },
+]
+const rows = [...events.values()].map((event) => ({
+  ...event,
+  url: `https://example.com/${event.eventId}`,
+  date: "2026-10-24",
+}))
+const priority = (source: string) =>
+  ["fargomoorhead.org", "fargolibrary.org", "fargounderground.com"].indexOf(
+    source,
+  )
+
+function override(action: MatchOverride["action"]): MatchOverride {
+  return {
+    id: action === "split" ? 1 : 2,
+    action,
+    keyType: "eventId",
+    key1: "a",
+    key2: "b",
+    note: null,
+    createdAt: "2026-10-01 00:00:00",
+  }
+}
+
+function memberIds(splits: [string, string][]): string[][] {
+  return clusterMatches(matches, events, priority, splits).map((cluster) =>
+    cluster.members.map((member) => member.eventId),
+  )
+}
+
+test("a split pair isn't chained back together through a third event", () => {
+  assert.deepEqual(memberIds([]), [["a", "c", "b"]])
+  const splits = splitPairs([override("split")], rows)
+  assert.deepEqual(splits, [["a", "b"]])
+  // b~c is the weaker match, so b is the one left out
+  assert.deepEqual(memberIds(splits), [["a", "c"]])
+})
+
+test("a newer merge of the pair cancels the split", () => {
+  assert.deepEqual(splitPairs([override("split"), override("merge")], rows), [])
+})
@@ -0,0 +1,72 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import { findMatches } from "../src/dedup/matcher"
+import { StoredEvent } from "../src/types/event"
+
+function listing(
+  source: string,
+  date: string,
+  startTime: string | null,
+): StoredEvent {
+  return {
+    id: 1,
+    eventId: `${source}-1`,
+    title: "Trampled by Turtles",
+    url: `https://${source}/event/1`,
+    location: "Fargo Theatre",
+    venueId: 4,
+    date,
+    startTime,
+    endTime: null,
+    allDay: false,
+    startDate: date,
+    endDate: date,
+    latitude: null,
+    longitude: null,
+    city: "Fargo",
+    source,
+  } as StoredEvent
+}
+
+const dayShift = {
+  utcSources: new Set(["utc.example"]),
+  timeZone: "America/Chicago",
+}
+
+test("a UTC-publishing source is compared in local time", () => {
+  // 8 PM CST on Nov 10 is 02:00 UTC on Nov 11
+  const local = listing("local.example", "2026-11-10", "20:00:00")
+  const utc = listing("utc.example", "2026-11-11", "02:00:00")
+
+  assert.deepEqual(findMatches([local], [utc]), [])
+
+  const [match] = findMatches([local], [utc], undefined, dayShift)
+  assert.equal(match.timeScore, 1)
+  assert.ok(
+    match.reasons.includes("Date: off-by-one-day (utc.example publishes UTC)"),
+  )
+})
+
+test("a UTC listing already on the local date keeps no day-shift reason", () => {
+  // 14:00 UTC is 08:00 CST the same day
+  const local = listing("local.example", "2026-11-10", "08:00:00")
+  const utc = listing("utc.example", "2026-11-10", "14:00:00")
+
+  const [match] = findMatches([local], [utc], undefined, dayShift)
+  assert.equal(match.timeScore, 1)
+  assert.ok(!match.reasons.some((reason) => reason.startsWith("Date:")))
+})
+
+test("late shows are matched across midnight within the window", () => {
+  const before = listing("a.example", "2026-11-10", "23:50:00")
+  const after = listing("b.example", "2026-11-11", "00:20:00")
+  const [match] = findMatches([before], [after])
+  assert.ok(
+    match.reasons.includes(
+      "Date: off-by-one-day (starts 30 min apart across midnight)",
+    ),
+  )
+
+  const tooLate = listing("b.example", "2026-11-11", "01:30:00")
+  assert.deepEqual(findMatches([before], [tooLate]), [])
+})
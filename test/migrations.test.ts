@@ -0,0 +1,79 @@
+import assert from "node:assert/strict"
+import { mkdtempSync, rmSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { after, test } from "node:test"
+import Database from "better-sqlite3"
+import { EventDatabase } from "../src/db/database"
+import { FetchedEvent } from "../src/cities/types"
+
+const dir = mkdtempSync(join(tmpdir(), "fargoings-test-"))
+after(() => rmSync(dir, { recursive: true, force: true }))
+
+function daysFromToday(days: number): string {
+  const today = new Intl.DateTimeFormat("en-CA", {
+    timeZone: "America/Chicago",
+  }).format(new Date())
+  const [y, m, d] = today.split("-").map(Number)
+  return new Date(Date.UTC(y, m - 1, d + days)).toISOString().slice(0, 10)
+}
+
+function event(eventId: string, date: string, endDate: string): FetchedEvent {
+  return {
+    eventId,
+    title: `Weekly Trivia ${eventId}`,
+    url: `https://www.fargomoorhead.org/event/${eventId}/`,
+    location: "Somewhere, 1 Main Ave",
+    date,
+    startTime: "19:00:00",
+    endTime: null,
+    allDay: false,
+    startDate: date,
+    endDate,
+    latitude: null,
+    longitude: null,
+    city: "Fargo",
+    imageUrl: null,
+    description: null,
+    descriptionHtml: null,
+    priceType: null,
+    priceMin: null,
+    priceMax: null,
+    ticketUrl: null,
+    audience: null,
+    categories: "[]",
+    source: "fargomoorhead.org",
+  }
+}
+
+test("v21 resets Simpleview series bounds on an upgraded DB", () => {
+  const path = join(dir, "upgrade.db")
+  const seeded = new EventDatabase(path)
+  // Rows as the old fetcher stored them: endDate is the series end
+  seeded.insertEvent(event("past", daysFromToday(-30), daysFromToday(60)))
+  seeded.insertEvent(event("next", daysFromToday(5), daysFromToday(90)))
+  seeded.close()
+
+  const raw = new Database(path)
+  raw.pragma("user_version = 20")
+  raw.close()
+
+  const db = new EventDatabase(path)
+  try {
+    assert.equal(db.getEvent("past")?.endDate, daysFromToday(-30))
+    assert.equal(db.getEvent("next")?.endDate, daysFromToday(5))
+
+    // The next fetch upserts the same rows with endDate = date
+    db.insertEvent(event("next", daysFromToday(5), daysFromToday(5)))
+    assert.deepEqual(db.getEventChanges("next"), [])
+
+    db.rebuildDisplayEvents()
+    const { rows } = db.queryDisplayEvents("", 50, 0)
+    assert.deepEqual(
+      rows.map((row) => [row.eventId, row.occurrenceDate]),
+      [["next", daysFromToday(5)]],
+    )
+  } finally {
+    db.close()
+  }
+})
@@ -0,0 +1,68 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import { siouxFallsCity } from "../src/cities/siouxfalls/config"
+import { scoreMatch } from "../src/dedup/matcher"
+import { MatchWeights, resolveMatchTuning } from "../src/dedup/tuning"
+import { StoredEvent } from "../src/types/event"
+
+const sum = (weights: MatchWeights) =>
+  Math.round(
+    (weights.title + weights.venue + weights.time + weights.geo) * 100,
+  ) / 100
+
+function listing(
+  source: string,
+  startTime: string,
+  coordinates: [number, number] | null,
+): StoredEvent {
+  return {
+    id: 1,
+    eventId: `${source}-1`,
+    title: "Disney On Ice: Let's Dance!",
+    url: `https://${source}/event/1`,
+    location: "Denny Sanford PREMIER Center",
+    date: "2026-11-14",
+    startTime,
+    endTime: null,
+    allDay: false,
+    startDate: "2026-11-14",
+    endDate: "2026-11-14",
+    latitude: coordinates?.[0] ?? null,
+    longitude: coordinates?.[1] ?? null,
+    city: "Sioux Falls",
+    source,
+  } as StoredEvent
+}
+
+test("the ESF ↔ Premier Center pair weighs the start time", () => {
+  const tuning = resolveMatchTuning(
+    siouxFallsCity.matchTuning,
+    "experiencesiouxfalls.com",
+    "dennysanfordpremiercenter.com",
+  )
+  assert.ok(tuning.weights.time > 0)
+  assert.equal(sum(tuning.weights), 1)
+  // Same title and arena: two shows that day stay apart on the time
+  const esf = listing("experiencesiouxfalls.com", "11:00:00", null)
+  const premier = listing(
+    "dennysanfordpremiercenter.com",
+    "19:00:00",
+    [43.5694, -96.7436],
+  )
+  const matinee = scoreMatch(esf, { ...premier, startTime: "11:00:00" }, tuning)
+  const evening = scoreMatch(esf, premier, tuning)
+  assert.ok(matinee.totalScore > evening.totalScore)
+  assert.equal(evening.timeScore, 0)
+})
+
+test("ESF's own pairs weigh the start time", () => {
+  for (const other of ["experiencesiouxfalls.com", "dtsf.com"]) {
+    const tuning = resolveMatchTuning(
+      siouxFallsCity.matchTuning,
+      "experiencesiouxfalls.com",
+      other,
+    )
+    assert.ok(tuning.weights.time > 0, other)
+    assert.equal(sum(tuning.weights), 1, other)
+  }
+})
@@ -27,6 +27,13 @@ export default defineConfig({
   build: {
     outDir: "../../dist/web",
     emptyOutDir: true,
+    rollupOptions: {
+      // review.html is the admin match-review page (see src/web/review.ts).
+      input: {
+        main: "src/web/index.html",
+        review: "src/web/review.html",
+      },
+    },
   },
   server: {
     port: webPort,